@@ -4,22 +4,47 @@ import { Sidebar } from './components/Sidebar';
 import { CanvasArea } from './components/CanvasArea';
 import { LabelSelector } from './components/LabelSelector';
 import { SettingsModal } from './components/SettingsModal';
-import { Annotation, ToolType, ViewTransform, Point, KeyMap, ImageFilters, GridSettings } from './types';
-import { COLORS, getLabelColor, DEFAULT_KEY_MAP } from './constants';
-import { isShortcutPressed } from './utils/keyboard';
-import { Upload } from 'lucide-react';
-import { getAnnotationBounds, moveAnnotation } from './utils/geometry';
+import { ImageNavigator } from './components/ImageNavigator';
+import { Annotation, ToolType, ViewTransform, Point, KeyMap, ImageFilters, GridSettings, ExportFormat, ExportOptions, AnnotatedImage, DetectionSettings, HistoryState, ImageSize, ImageStatus, ProjectImage, GradingConfig, CenteringMeasurement } from './types';
+import { COLORS, getLabelColor, DEFAULT_KEY_MAP, DEFAULT_DETECTION_SETTINGS } from './constants';
+import { isShortcutPressed, isEditableTarget } from './utils/keyboard';
+import { Upload, FolderOpen, History, Loader2, AlertTriangle, X } from 'lucide-react';
+import { getAnnotationBounds, moveAnnotation, simplifyPolygonShape, isSimplifiable, SimplifyOptions } from './utils/geometry';
+import { serializeLabelMe } from './utils/labelme';
+import { serializeCoco } from './utils/coco';
+import { serializeYolo, buildYoloClassesTxt, buildYoloDataYaml } from './utils/yolo';
+import { serializeDota } from './utils/dota';
+import { serializeVoc } from './utils/voc';
+import { importAnnotationFile } from './utils/importers';
+import { downloadText, downloadBlob, getBaseName } from './utils/download';
+import { renderAnnotatedImage } from './utils/overlay';
+import { renderMasks } from './utils/masks';
+import { buildDefectSheet, buildLabelSummarySheet, toCsv, toSpreadsheetXml } from './utils/spreadsheet';
+import { getDetectionProvider } from './services/detectionProviders';
+import { isDetectionError } from './services/detectionErrors';
+import { detectionToAnnotation } from './utils/detection';
+import { getAcceptedAnnotations, acceptSuggestion } from './utils/annotation';
+import { DEFAULT_GRADING_CONFIG, parseGradingConfig } from './utils/grading';
+import { detectCentering } from './utils/centering';
+import { loadGradientMap, refineAnnotationShape, isRefinable, GradientMap } from './utils/refine';
+import { blobToDataUrl } from './utils/image';
+import { combineAnnotations, splitAnnotation, createPieceAnnotations, isBooleanOperand, isCuttingLine, ShapeOperation, SHAPE_OPERATION_NAMES } from './utils/polygonOps';
+import { saveSession, saveImageBlobs, deleteImageBlobs, loadSession, clearSession, RestoredSession, SavedSession } from './services/sessionStore';
 
-interface HistoryItem {
-  annotations: Annotation[];
-  action: string;
-}
+// Height of the ImageNavigator filmstrip below the canvas
+const NAVIGATOR_HEIGHT = 112;
+const AUTOSAVE_DELAY_MS = 1000;
+const API_KEY_STORAGE_KEY = 'detectionApiKey';
 
 const App: React.FC = () => {
   // --- State ---
+  // The project holds every opened image; the state below is the working copy
+  // of the current one and is written back to `images` when switching.
+  const [images, setImages] = useState<ProjectImage[]>([]);
+  const [currentImageId, setCurrentImageId] = useState<string | null>(null);
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
-  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [imageSize, setImageSize] = useState<ImageSize>({ width: 0, height: 0 });
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [currentTool, setCurrentTool] = useState<ToolType>('select');
@@ -28,13 +53,29 @@ const App: React.FC = () => {
   // Padding State
   const [canvasPadding, setCanvasPadding] = useState<{ x: number, y: number }>({ x: 50, y: 50 });
 
+  // Centering measurement of the open image
+  const [centering, setCentering] = useState<CenteringMeasurement | null>(null);
+  const [isDetectingCentering, setIsDetectingCentering] = useState(false);
+
+  // Edge snapping
+  const [refineRadius, setRefineRadius] = useState(12);
+  const [refinePreview, setRefinePreview] = useState<Annotation[] | null>(null);
+  const [simplifyOptions, setSimplifyOptions] = useState<SimplifyOptions>({ tolerance: 2, smoothing: 0 });
+  const [isSimplifyPreviewing, setIsSimplifyPreviewing] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  const gradientMapRef = useRef<{ src: string; map: Promise<GradientMap> } | null>(null);
+  const refineRequestRef = useRef(0);
+
   // History State
-  const [history, setHistory] = useState<{ past: HistoryItem[], future: HistoryItem[] }>({ past: [], future: [] });
+  const [history, setHistory] = useState<HistoryState>({ past: [], future: [] });
   
   // Display Settings
   const [fillOpacity, setFillOpacity] = useState(0.2);
+  const [wandTolerance, setWandTolerance] = useState(32);
   const [showCrosshairs, setShowCrosshairs] = useState(true);
   const [showImageName, setShowImageName] = useState(true);
+  // AI suggestions scoring below this are hidden from the canvas and review list
+  const [reviewThreshold, setReviewThreshold] = useState(0);
   
   // Advanced Card Grading Settings
   const [imageFilters, setImageFilters] = useState<ImageFilters>({ brightness: 100, contrast: 100, saturation: 100 });
@@ -43,9 +84,35 @@ const App: React.FC = () => {
   // Settings & Shortcuts
   const [keyMap, setKeyMap] = useState<KeyMap>(() => {
     const saved = localStorage.getItem('keyMap');
-    return saved ? JSON.parse(saved) : DEFAULT_KEY_MAP;
+    // Merge so that actions added after the map was saved get their defaults
+    return saved ? { ...DEFAULT_KEY_MAP, ...JSON.parse(saved) } : DEFAULT_KEY_MAP;
   });
   const [showSettings, setShowSettings] = useState(false);
+  const [detectionSettings, setDetectionSettings] = useState<DetectionSettings>(() => {
+    const saved = localStorage.getItem('detectionSettings');
+    const settings: DetectionSettings = saved ? { ...DEFAULT_DETECTION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_DETECTION_SETTINGS;
+    // Keys saved by older versions are moved out of localStorage by the effect below
+    return { ...settings, httpApiKey: sessionStorage.getItem(API_KEY_STORAGE_KEY) ?? settings.httpApiKey };
+  });
+
+  // Card Grading Rules
+  const [gradingConfig, setGradingConfig] = useState<GradingConfig>(() => {
+    const saved = localStorage.getItem('gradingConfig');
+    try {
+      return saved ? parseGradingConfig(saved) : DEFAULT_GRADING_CONFIG;
+    } catch {
+      return DEFAULT_GRADING_CONFIG;
+    }
+  });
+
+  // AI Pre-annotation
+  const [aiStatus, setAiStatus] = useState<{ running: boolean; error: string | null; progress?: string }>({ running: false, error: null });
+  const detectionAbortRef = useRef<AbortController | null>(null);
+
+  // Crash Recovery
+  const [pendingRestore, setPendingRestore] = useState<RestoredSession | null>(null);
+  // Whether the whole project was exported since the last change
+  const exportedRef = useRef(false);
 
   // Popup State
   const [labelPopup, setLabelPopup] = useState<{ visible: boolean; x: number; y: number; id: string | null }>({
@@ -56,6 +123,11 @@ const App: React.FC = () => {
   });
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const currentImageIdRef = useRef<string | null>(null);
+  // Latest annotations, for async work that finishes after further edits
+  const annotationsRef = useRef<Annotation[]>(annotations);
+  annotationsRef.current = annotations;
 
   // --- Effects ---
 
@@ -64,6 +136,61 @@ const App: React.FC = () => {
     localStorage.setItem('keyMap', JSON.stringify(keyMap));
   }, [keyMap]);
 
+  // Persist Detection Settings. The access token only lives as long as the
+  // tab, so it is not left on disk in plain text.
+  useEffect(() => {
+    const { httpApiKey, ...persisted } = detectionSettings;
+    localStorage.setItem('detectionSettings', JSON.stringify(persisted));
+    if (httpApiKey) sessionStorage.setItem(API_KEY_STORAGE_KEY, httpApiKey);
+    else sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+  }, [detectionSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('gradingConfig', JSON.stringify(gradingConfig));
+  }, [gradingConfig]);
+
+  // A refine preview only describes the shapes it was computed from. The
+  // counter lets a preview still being computed notice it is outdated.
+  useEffect(() => {
+    refineRequestRef.current++;
+    setRefinePreview(null);
+  }, [annotations, selectedIds, refineRadius]);
+
+  // The simplify preview follows the sliders, but not a change of selection
+  useEffect(() => {
+    setIsSimplifyPreviewing(false);
+  }, [selectedIds]);
+
+  // Offer to restore the autosaved session from a previous visit
+  useEffect(() => {
+    loadSession()
+      .then(restored => setPendingRestore(restored))
+      .catch(error => console.error("Failed to load autosaved session:", error));
+  }, []);
+
+  // Autosave the working document (debounced). Nothing is written until the
+  // user has opened images, so a pending restore is never overwritten.
+  useEffect(() => {
+    if (images.length === 0) return;
+    exportedRef.current = false;
+    const timer = setTimeout(() => {
+      saveSession(buildSavedSession()).catch(error => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [images, currentImageId, annotations, transform, imageSize, imageFilters, centering]);
+
+  // Track labeling progress of the current image (unless explicitly marked
+  // done). Unreviewed AI suggestions are not progress.
+  useEffect(() => {
+    if (!currentImageId) return;
+    const nextStatus: ImageStatus = getAcceptedAnnotations(annotations).length > 0 ? 'in_progress' : 'unlabeled';
+    setImages(prev => {
+      const current = prev.find(img => img.id === currentImageId);
+      if (!current || current.status === 'done' || current.status === nextStatus) return prev;
+      return prev.map(img => img.id === currentImageId ? { ...img, status: nextStatus } : img);
+    });
+  }, [annotations, currentImageId]);
+
   // --- History Logic ---
 
   const snapshotHistory = (action: string = '修改') => {
@@ -116,17 +243,27 @@ const App: React.FC = () => {
   // --- Global Keyboard Handler ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.target as HTMLElement).tagName === 'INPUT') return;
+      if (isEditableTarget(e.target)) return;
 
       if (isShortcutPressed(e, keyMap.TOOL_SELECT)) setCurrentTool('select');
       if (isShortcutPressed(e, keyMap.TOOL_PAN)) setCurrentTool('pan');
       if (isShortcutPressed(e, keyMap.TOOL_RECTANGLE)) setCurrentTool('rectangle');
       if (isShortcutPressed(e, keyMap.TOOL_POLYGON)) setCurrentTool('polygon');
+      if (isShortcutPressed(e, keyMap.TOOL_POLYLINE)) setCurrentTool('polyline');
+      if (isShortcutPressed(e, keyMap.TOOL_POINT)) setCurrentTool('point');
+      if (isShortcutPressed(e, keyMap.TOOL_CIRCLE)) setCurrentTool('circle');
+      if (isShortcutPressed(e, keyMap.TOOL_ELLIPSE)) setCurrentTool('ellipse');
+      if (isShortcutPressed(e, keyMap.TOOL_ROTATED_RECT)) setCurrentTool('rotated_rect');
+      if (isShortcutPressed(e, keyMap.TOOL_MAGIC_WAND)) setCurrentTool('magic_wand');
+      if (isShortcutPressed(e, keyMap.TOOL_CENTERING)) setCurrentTool('centering');
 
       if (isShortcutPressed(e, keyMap.ZOOM_IN)) handleZoom('in');
       if (isShortcutPressed(e, keyMap.ZOOM_OUT)) handleZoom('out');
       if (isShortcutPressed(e, keyMap.RESET_VIEW)) handleResetView();
 
+      if (isShortcutPressed(e, keyMap.NEXT_IMAGE)) handleNavigateImage(1);
+      if (isShortcutPressed(e, keyMap.PREV_IMAGE)) handleNavigateImage(-1);
+
       if (isShortcutPressed(e, keyMap.UNDO)) { e.preventDefault(); handleUndo(); }
       if (isShortcutPressed(e, keyMap.REDO)) { e.preventDefault(); handleRedo(); }
 
@@ -142,42 +279,209 @@ const App: React.FC = () => {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [keyMap, selectedIds, history, annotations]);
+  }, [keyMap, selectedIds, history, annotations, images, currentImageId, transform, imageSize]);
 
 
   // --- Handlers ---
   
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setFileName(file.name);
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const src = event.target?.result as string;
-        setImageSrc(src);
-        const img = new Image();
-        img.onload = () => {
-          setImageSize({ width: img.width, height: img.height });
-          
-          const maxWidth = window.innerWidth - 384; 
-          const maxHeight = window.innerHeight;
-          const scale = Math.min(maxWidth / img.width, maxHeight / img.height) * 0.9;
-          
-          const x = (maxWidth - img.width * scale) / 2 - (canvasPadding.x * scale);
-          const y = (maxHeight - img.height * scale) / 2 - (canvasPadding.y * scale);
-          
-          setTransform({ scale, x, y });
-          setAnnotations([]);
-          setHistory({ past: [], future: [] });
-          // Reset filters on new image
-          setImageFilters({ brightness: 100, contrast: 100, saturation: 100 });
-        };
-        img.src = src;
+  const getFitTransform = (size: ImageSize): ViewTransform => {
+    const maxWidth = window.innerWidth - 384; 
+    const maxHeight = window.innerHeight - NAVIGATOR_HEIGHT;
+    const scale = Math.min(maxWidth / size.width, maxHeight / size.height) * 0.9;
+    
+    const x = (maxWidth - size.width * scale) / 2 - (canvasPadding.x * scale);
+    const y = (maxHeight - size.height * scale) / 2 - (canvasPadding.y * scale);
+
+    return { scale, x, y };
+  };
+
+  // Writes the working state of the open image back into its project entry
+  const commitCurrentImage = (list: ProjectImage[]): ProjectImage[] => {
+    return list.map(img => img.id === currentImageId ? {
+      ...img,
+      annotations,
+      history,
+      transform,
+      centering,
+      imageSize: imageSize.width > 0 ? imageSize : img.imageSize
+    } : img);
+  };
+
+  // A finished project is not offered for restore on the next visit
+  const buildSavedSession = (): SavedSession => {
+    const project = commitCurrentImage(images);
+    return {
+      savedAt: Date.now(),
+      currentImageId,
+      imageFilters,
+      complete: exportedRef.current || project.every(img => img.status === 'done'),
+      images: project.map(img => ({
+        id: img.id,
+        fileName: img.fileName,
+        imageSize: img.imageSize,
+        annotations: img.annotations,
+        transform: img.transform,
+        status: img.status,
+        centering: img.centering
+      }))
+    };
+  };
+
+  const loadImage = (target: ProjectImage) => {
+    currentImageIdRef.current = target.id;
+    setCurrentImageId(target.id);
+    setImageSrc(target.src);
+    setFileName(target.fileName);
+    setAnnotations(target.annotations);
+    setHistory(target.history);
+    setCentering(target.centering);
+    setSelectedIds([]);
+    setLabelPopup(prev => ({ ...prev, visible: false, id: null }));
+
+    if (target.imageSize) {
+      setImageSize(target.imageSize);
+      setTransform(target.transform ?? getFitTransform(target.imageSize));
+      return;
+    }
+
+    // First visit: measure the image before fitting it to the screen
+    setImageSize({ width: 0, height: 0 });
+    const img = new Image();
+    img.onload = () => {
+      const size = { width: img.width, height: img.height };
+      setImages(prev => prev.map(p => p.id === target.id ? { ...p, imageSize: size } : p));
+      if (currentImageIdRef.current !== target.id) return; // User already moved on
+      setImageSize(size);
+      setTransform(getFitTransform(size));
+    };
+    img.src = target.src;
+  };
+
+  const handleAddFiles = (files: FileList) => {
+    const imageFiles = Array.from(files)
+      .filter(file => file.type.startsWith('image/'))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    if (imageFiles.length === 0) return;
+
+    const now = Date.now();
+    const added: ProjectImage[] = imageFiles.map((file, i) => ({
+      id: `${now}_${i}`,
+      file,
+      fileName: file.name,
+      src: URL.createObjectURL(file),
+      imageSize: null,
+      annotations: [],
+      history: { past: [], future: [] },
+      transform: null,
+      status: 'unlabeled',
+      centering: null
+    }));
+
+    // Starting a new project discards whatever was left from the last visit
+    const ready = images.length === 0 ? clearSession() : Promise.resolve();
+    ready
+      .then(() => saveImageBlobs(added))
+      .catch(error => console.error("Failed to store images for autosave:", error));
+    setPendingRestore(null);
+
+    setImages(prev => [...prev, ...added]);
+    if (!currentImageId) loadImage(added[0]);
+  };
+
+  const handleRestoreSession = () => {
+    if (!pendingRestore) return;
+    const { session, blobs } = pendingRestore;
+    const restored: ProjectImage[] = session.images.map(saved => {
+      const file = blobs.get(saved.id)!;
+      return {
+        ...saved,
+        file,
+        src: URL.createObjectURL(file),
+        history: { past: [], future: [] },
+        centering: saved.centering ?? null
       };
-      reader.readAsDataURL(file);
+    });
+
+    setPendingRestore(null);
+    setImages(restored);
+    setImageFilters(session.imageFilters);
+    loadImage(restored.find(img => img.id === session.currentImageId) || restored[0]);
+  };
+
+  const handleDiscardSession = () => {
+    setPendingRestore(null);
+    clearSession().catch(error => console.error("Failed to clear autosaved session:", error));
+  };
+
+  // Drops every image and the autosaved session. The images' object URLs are
+  // released here since nothing else keeps their blobs alive.
+  const resetProject = () => {
+    detectionAbortRef.current?.abort();
+    images.forEach(img => URL.revokeObjectURL(img.src));
+    currentImageIdRef.current = null;
+    setImages([]);
+    setCurrentImageId(null);
+    setImageSrc(null);
+    setFileName(null);
+    setImageSize({ width: 0, height: 0 });
+    setAnnotations([]);
+    setHistory({ past: [], future: [] });
+    setCentering(null);
+    setSelectedIds([]);
+    setLabelPopup(prev => ({ ...prev, visible: false, id: null }));
+    clearSession().catch(error => console.error("Failed to clear autosaved session:", error));
+  };
+
+  const handleCloseProject = () => {
+    if (!window.confirm('关闭项目将移除所有图片和标注，确定吗？ (Close the project and discard all images and annotations?)')) return;
+    resetProject();
+  };
+
+  const handleRemoveImage = (id: string) => {
+    const index = images.findIndex(img => img.id === id);
+    if (index < 0) return;
+    const target = images[index];
+    const annotationCount = id === currentImageId ? annotations.length : target.annotations.length;
+    if (annotationCount > 0 && !window.confirm(`${target.fileName} 有 ${annotationCount} 个标注，确定从项目中移除？ (Remove this image and its annotations?)`)) return;
+
+    const remaining = images.filter(img => img.id !== id);
+    if (remaining.length === 0) {
+      resetProject();
+      return;
+    }
+    URL.revokeObjectURL(target.src);
+    deleteImageBlobs([id]).catch(error => console.error("Failed to delete autosaved image:", error));
+    if (id === currentImageId) {
+      setImages(remaining);
+      loadImage(remaining[Math.min(index, remaining.length - 1)]);
+    } else {
+      setImages(commitCurrentImage(remaining));
     }
   };
 
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) handleAddFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleSelectImage = (id: string) => {
+    if (id === currentImageId) return;
+    const target = images.find(img => img.id === id);
+    if (!target) return;
+    setImages(commitCurrentImage(images));
+    loadImage(target);
+  };
+
+  const handleNavigateImage = (step: 1 | -1) => {
+    const index = images.findIndex(img => img.id === currentImageId);
+    const target = images[index + step];
+    if (target) handleSelectImage(target.id);
+  };
+
+  const handleSetImageStatus = (id: string, status: ImageStatus) => {
+    setImages(prev => prev.map(img => img.id === id ? { ...img, status } : img));
+  };
+
   const handleZoom = (direction: 'in' | 'out') => {
     setTransform(prev => ({
       ...prev,
@@ -187,37 +491,156 @@ const App: React.FC = () => {
 
   const handleResetView = () => {
     if (imageSize.width === 0) return;
-    const maxWidth = window.innerWidth - 384; 
-    const maxHeight = window.innerHeight;
-    const scale = Math.min(maxWidth / imageSize.width, maxHeight / imageSize.height) * 0.9;
-    
-    const x = (maxWidth - imageSize.width * scale) / 2 - (canvasPadding.x * scale);
-    const y = (maxHeight - imageSize.height * scale) / 2 - (canvasPadding.y * scale);
-
-    setTransform({ scale, x, y });
-  };
-
-  const handleExport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify({
-      version: "1.0",
-      imageHeight: imageSize.height,
-      imageWidth: imageSize.width,
-      imageName: fileName,
-      shapes: annotations.map(a => ({
-        label: a.label,
-        points: a.points.map(p => [p.x, p.y]),
-        group_id: null,
-        shape_type: a.type,
-        flags: {},
-        locked: a.locked
-      }))
-    }, null, 2));
-    const downloadAnchorNode = document.createElement('a');
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `${fileName?.split('.')[0] || 'annotations'}.json`);
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+    setTransform(getFitTransform(imageSize));
+  };
+
+  // Every image of the project whose size is known; images never opened have
+  // no annotations and are left out.
+  const getProjectAnnotatedImages = (): AnnotatedImage[] => {
+    return commitCurrentImage(images)
+      .filter(img => img.imageSize)
+      .map(img => ({
+        fileName: img.fileName,
+        imageSize: img.imageSize!,
+        annotations: getAcceptedAnnotations(img.annotations),
+        centering: img.centering
+      }));
+  };
+
+  const handleExport = async (format: ExportFormat, options: ExportOptions) => {
+    const baseName = getBaseName(fileName);
+    // Unreviewed AI suggestions never leave the editor
+    const accepted = getAcceptedAnnotations(annotations);
+    switch (format) {
+      case 'labelme': {
+        const doc = serializeLabelMe(accepted, imageSize, fileName, centering);
+        downloadText(JSON.stringify(doc, null, 2), `${baseName}.json`);
+        break;
+      }
+      case 'coco': {
+        // The whole project goes into one dataset
+        const entries = getProjectAnnotatedImages();
+        const dataset = serializeCoco(entries);
+        const datasetName = entries.length > 1 ? 'project' : baseName;
+        downloadText(JSON.stringify(dataset, null, 2), `${datasetName}_coco.json`);
+        break;
+      }
+      case 'yolo_detection':
+      case 'yolo_segmentation':
+      case 'yolo_obb': {
+        const mode = format === 'yolo_detection' ? 'detection' : format === 'yolo_obb' ? 'obb' : 'segmentation';
+        downloadText(serializeYolo(accepted, imageSize, mode), `${baseName}.txt`, 'text/plain');
+        downloadText(buildYoloClassesTxt(), 'classes.txt', 'text/plain');
+        downloadText(buildYoloDataYaml(), 'data.yaml', 'text/yaml');
+        break;
+      }
+      case 'dota': {
+        downloadText(serializeDota(accepted), `${baseName}.txt`, 'text/plain');
+        break;
+      }
+      case 'voc': {
+        downloadText(serializeVoc(accepted, imageSize, fileName), `${baseName}.xml`, 'application/xml');
+        break;
+      }
+      case 'overlay_png':
+      case 'overlay_jpeg': {
+        if (!imageSrc) return;
+        const mimeType = format === 'overlay_png' ? 'image/png' : 'image/jpeg';
+        try {
+          const blob = await renderAnnotatedImage(imageSrc, imageSize, accepted, {
+            fillOpacity,
+            filters: options.applyFilters ? imageFilters : null,
+            includeLegend: options.includeLegend,
+            mimeType,
+            quality: 0.92
+          });
+          downloadBlob(blob, `${baseName}_annotated.${format === 'overlay_png' ? 'png' : 'jpg'}`);
+        } catch (error) {
+          console.error("Image export failed:", error);
+          alert(`导出失败 (Export failed): ${error instanceof Error ? error.message : error}`);
+          return;
+        }
+        break;
+      }
+      case 'csv':
+      case 'excel': {
+        const entries = getProjectAnnotatedImages();
+        const reportName = entries.length > 1 ? 'project' : baseName;
+        const sheets = [buildDefectSheet(entries), buildLabelSummarySheet(entries)];
+        if (format === 'csv') {
+          downloadText(toCsv(sheets[0]), `${reportName}_defects.csv`, 'text/csv');
+          downloadText(toCsv(sheets[1]), `${reportName}_summary.csv`, 'text/csv');
+        } else {
+          downloadText(toSpreadsheetXml(sheets), `${reportName}_defects.xls`, 'application/vnd.ms-excel');
+        }
+        break;
+      }
+      case 'masks': {
+        try {
+          const masks = await renderMasks(accepted, imageSize, fileName);
+          downloadBlob(masks.semantic, `${baseName}_semantic.png`);
+          downloadBlob(masks.instance, `${baseName}_instance.png`);
+          downloadText(JSON.stringify(masks.sidecar, null, 2), `${baseName}_masks.json`);
+        } catch (error) {
+          console.error("Mask export failed:", error);
+          alert(`导出失败 (Export failed): ${error instanceof Error ? error.message : error}`);
+          return;
+        }
+        break;
+      }
+    }
+
+    // COCO and the spreadsheets cover every image; other formats only the
+    // current one, which finishes the project only if it is the sole image
+    if (format === 'coco' || format === 'csv' || format === 'excel' || images.length === 1) {
+      exportedRef.current = true;
+      saveSession(buildSavedSession()).catch(error => console.error("Autosave failed:", error));
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const result = await importAnnotationFile(file, { fileName, imageSize, projectImages: images });
+      const { skipped, unmatchedImages = 0 } = result;
+      // Datasets only touch the project images they contain
+      const datasetImages = result.images;
+      const otherImages = datasetImages
+        ? images.filter(img => img.id !== currentImageId && datasetImages.has(img.fileName))
+        : [];
+
+      if (otherImages.length > 0) {
+        setImages(prev => prev.map(img => {
+          const imported = img.id !== currentImageId ? datasetImages?.get(img.fileName) : undefined;
+          if (!imported) return img;
+          const status: ImageStatus = img.status === 'done' ? 'done' : getAcceptedAnnotations(imported).length > 0 ? 'in_progress' : 'unlabeled';
+          return {
+            ...img,
+            annotations: imported,
+            history: { past: [...img.history.past, { annotations: img.annotations, action: '导入标注' }], future: [] },
+            status
+          };
+        }));
+      }
+      if (!datasetImages || (fileName && datasetImages.has(fileName))) {
+        snapshotHistory('导入标注');
+        setAnnotations(result.annotations);
+        setSelectedIds([]);
+      }
+
+      const importedCount = datasetImages
+        ? Array.from(datasetImages.values()).reduce((total, anns) => total + anns.length, 0)
+        : result.annotations.length;
+      const notes = [datasetImages
+        ? `已为 ${datasetImages.size} 张图片导入 ${importedCount} 个标注 (Imported ${importedCount} annotations for ${datasetImages.size} images)`
+        : `已导入 ${importedCount} 个标注 (Imported ${importedCount} annotations)`];
+      if (skipped > 0) notes.push(`跳过 ${skipped} 个不支持的形状 (Skipped ${skipped} unsupported shapes)`);
+      if (unmatchedImages > 0) notes.push(`忽略 ${unmatchedImages} 张不在项目中的图片 (Ignored ${unmatchedImages} dataset images not in the project)`);
+      // A plain import of the current image speaks for itself
+      if (notes.length > 1 || otherImages.length > 0) alert(notes.join('\n'));
+    } catch (error) {
+      console.error("Import failed:", error);
+      alert(`导入失败 (Import failed): ${error instanceof Error ? error.message : error}`);
+    }
   };
 
   const handleShapeComplete = (id: string, screenPos: Point) => {
@@ -236,6 +659,151 @@ const App: React.FC = () => {
     setSelectedIds([]);
   };
 
+  // --- AI suggestion review ---
+
+  const handleAcceptSuggestions = (ids: string[]) => {
+    if (ids.length === 0) return;
+    snapshotHistory(`接受 AI 建议 (${ids.length})`);
+    setAnnotations(prev => prev.map(a => ids.includes(a.id) ? acceptSuggestion(a) : a));
+  };
+
+  const handleRejectSuggestions = (ids: string[]) => {
+    if (ids.length === 0) return;
+    snapshotHistory(`拒绝 AI 建议 (${ids.length})`);
+    setAnnotations(prev => prev.filter(a => !ids.includes(a.id)));
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  // --- Centering ---
+
+  const handleAutoCentering = async () => {
+    if (!imageSrc || imageSize.width === 0 || isDetectingCentering) return;
+    const imageId = currentImageId;
+    setIsDetectingCentering(true);
+    try {
+      const measured = await detectCentering(imageSrc, imageSize);
+      if (currentImageIdRef.current === imageId) {
+        setCentering(measured);
+        setCurrentTool('centering');
+      } else {
+        setImages(prev => prev.map(img => img.id === imageId ? { ...img, centering: measured } : img));
+      }
+    } catch (error) {
+      console.error("Centering detection failed:", error);
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsDetectingCentering(false);
+    }
+  };
+
+  // --- Edge Snapping ---
+
+  const handlePreviewRefine = async () => {
+    const targets = annotations.filter(a => selectedIds.includes(a.id) && isRefinable(a));
+    if (!imageSrc || targets.length === 0 || isRefining) return;
+    const request = refineRequestRef.current;
+    setIsSimplifyPreviewing(false);
+    setIsRefining(true);
+    try {
+      if (!gradientMapRef.current || gradientMapRef.current.src !== imageSrc) {
+        gradientMapRef.current = { src: imageSrc, map: loadGradientMap(imageSrc) };
+      }
+      const map = await gradientMapRef.current.map;
+      // The shapes, selection or radius changed while the map was loading
+      if (request !== refineRequestRef.current) return;
+      setRefinePreview(targets.map(a => ({ ...a, ...refineAnnotationShape(map, a, refineRadius) })));
+    } catch (error) {
+      gradientMapRef.current = null;
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleApplyRefine = () => {
+    if (!refinePreview) return;
+    const refined = new Map(refinePreview.map(a => [a.id, a]));
+    snapshotHistory('边缘吸附');
+    setAnnotations(annotations.map(a => refined.get(a.id) ?? a));
+    setRefinePreview(null);
+  };
+
+  // --- Simplification ---
+
+  const getSimplifyTargets = () => annotations.filter(a => selectedIds.includes(a.id) && isSimplifiable(a));
+
+  // Cheap enough to recompute on every render while previewing
+  const simplifyPreview = isSimplifyPreviewing
+    ? getSimplifyTargets().map(a => ({ ...a, ...simplifyPolygonShape(a, simplifyOptions) }))
+    : null;
+
+  const handlePreviewSimplify = () => {
+    setRefinePreview(null);
+    setIsSimplifyPreviewing(true);
+  };
+
+  const handleApplySimplify = () => {
+    if (!simplifyPreview) return;
+    const simplified = new Map(simplifyPreview.map(a => [a.id, a]));
+    snapshotHistory('简化多边形');
+    setAnnotations(annotations.map(a => simplified.get(a.id) ?? a));
+    setIsSimplifyPreviewing(false);
+  };
+
+  // --- Boolean Operations ---
+
+  const handleShapeOperation = (op: ShapeOperation) => {
+    // Selection order decides the primary shape
+    const selected = selectedIds
+      .map(id => annotations.find(a => a.id === id))
+      .filter((a): a is Annotation => !!a);
+    const operands = selected.filter(isBooleanOperand);
+    const replacements = new Map<string, Annotation[]>();
+
+    // The clipper rejects some degenerate input, e.g. zero-area outlines
+    try {
+      if (op === 'split') {
+        const cutters = selected.filter(isCuttingLine);
+        if (cutters.length !== 1 || operands.length === 0) return;
+        operands.forEach(ann => {
+          const pieces = splitAnnotation(ann, cutters[0].points);
+          if (pieces.length > 1) replacements.set(ann.id, createPieceAnnotations(ann, pieces));
+        });
+        if (replacements.size === 0) {
+          alert('切割线没有完全穿过选中的形状 (The line does not cut through the selected shapes)');
+          return;
+        }
+        // The cutting line has done its job
+        replacements.set(cutters[0].id, []);
+      } else {
+        if (operands.length < 2) return;
+        const [primary, ...others] = operands;
+        const pieces = combineAnnotations(primary, others, op);
+        if (pieces.length === 0 && op === 'intersect') {
+          alert('选中的形状没有重叠部分 (The selected shapes do not overlap)');
+          return;
+        }
+        replacements.set(primary.id, createPieceAnnotations(primary, pieces));
+        // Subtracting keeps the shapes that were cut away
+        if (op !== 'subtract') others.forEach(a => replacements.set(a.id, []));
+      }
+    } catch (error) {
+      console.error("Shape operation failed:", error);
+      alert(`形状运算失败 (Shape operation failed): ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    snapshotHistory(SHAPE_OPERATION_NAMES[op]);
+    // Results take the place of their source in the drawing order
+    setAnnotations(annotations.flatMap(a => replacements.get(a.id) ?? [a]));
+    setSelectedIds(Array.from(replacements.values()).flat().map(a => a.id));
+  };
+
+  const handleEditSuggestion = (id: string) => {
+    setCurrentTool('select');
+    setSelectedIds([id]);
+  };
+
   const handleToggleVisible = (id: string) => {
     setAnnotations(prev => prev.map(a => a.id === id ? { ...a, visible: !a.visible } : a));
   };
@@ -252,6 +820,12 @@ const App: React.FC = () => {
     }
   };
 
+  // One undo step per edit of the field, not per keystroke or spinner step
+  const handleUpdateStrokeWidth = (id: string, strokeWidth: number, isNewEdit: boolean) => {
+    if (isNewEdit) snapshotHistory('修改线宽');
+    setAnnotations(prev => prev.map(a => a.id === id ? { ...a, strokeWidth } : a));
+  };
+
   const handleEditLabel = (id: string, e: React.MouseEvent) => {
     const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
     setLabelPopup({
@@ -268,7 +842,8 @@ const App: React.FC = () => {
       snapshotHistory('修改类型');
       setAnnotations(prev => prev.map(ann => {
         if (ann.id === labelPopup.id) {
-          return { ...ann, label: key, color: getLabelColor(key) };
+          // Picking a class by hand resolves an unmatched AI label
+          return { ...ann, label: key, color: getLabelColor(key), needsReview: false };
         }
         return ann;
       }));
@@ -358,28 +933,127 @@ const App: React.FC = () => {
     setAnnotations(newAnnotations);
   };
 
+  // --- AI Pre-annotation ---
+
+  const handleAutoDetect = async () => {
+    const imageId = currentImageId;
+    const target = images.find(img => img.id === imageId);
+    if (!target || aiStatus.running || imageSize.width === 0) return;
+    const targetSize = imageSize;
+
+    const controller = new AbortController();
+    detectionAbortRef.current = controller;
+    setAiStatus({ running: true, error: null });
+    try {
+      const base64Image = await blobToDataUrl(target.file);
+      const provider = getDetectionProvider(detectionSettings);
+      const detected = await provider.detect({ imageDataUrl: base64Image, imageSize: targetSize, signal: controller.signal,
+        onProgress: (completed, total) => setAiStatus({ running: true, error: null, progress: `${completed}/${total}` })
+      });
+      const newAnnotations = detected
+        .map(obj => detectionToAnnotation(obj, targetSize, {
+          mode: detectionSettings.mode,
+          maxPolygonVertices: detectionSettings.maxPolygonVertices
+        }))
+        .filter((a): a is Annotation => a !== null)
+        // Held for review instead of going straight into the ground truth
+        .map(a => ({ ...a, proposed: true }));
+
+      if (newAnnotations.length > 0) {
+        const action = `AI 建议 (${newAnnotations.length})`;
+        if (currentImageIdRef.current === imageId) {
+          // One history entry for the whole batch
+          const base = annotationsRef.current;
+          setHistory(prev => ({ past: [...prev.past, { annotations: base, action }], future: [] }));
+          setAnnotations([...base, ...newAnnotations]);
+        } else {
+          // The user moved on to another image while the request was running
+          setImages(prev => prev.map(img => img.id === imageId ? {
+            ...img,
+            annotations: [...img.annotations, ...newAnnotations],
+            history: { past: [...img.history.past, { annotations: img.annotations, action }], future: [] }
+          } : img));
+        }
+      }
+      setAiStatus({ running: false, error: newAnnotations.length === 0 ? '未检测到瑕疵 (No defects detected)' : null });
+    } catch (error) {
+      // Cancelling is the user's own choice, not an error worth reporting
+      const aborted = isDetectionError(error) && error.kind === 'aborted';
+      setAiStatus({ running: false, error: aborted ? null : error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (detectionAbortRef.current === controller) detectionAbortRef.current = null;
+    }
+  };
+
+  const handleCancelDetection = () => {
+    detectionAbortRef.current?.abort();
+  };
+
   const getNextColor = () => COLORS[annotations.length % COLORS.length];
 
   if (!imageSrc) {
     return (
       <div className="h-screen w-screen bg-gray-900 flex flex-col items-center justify-center text-white p-4">
         <div className="max-w-md w-full border-2 border-dashed border-gray-700 rounded-xl p-10 flex flex-col items-center justify-center bg-gray-800/50 hover:bg-gray-800 transition-colors">
+          {pendingRestore && (
+            <div className="w-full mb-6 p-4 rounded-lg border border-amber-600/50 bg-amber-900/20 text-sm">
+              <div className="flex items-center gap-2 font-semibold text-amber-300 mb-1">
+                <History size={16} /> 发现未完成的会话
+              </div>
+              <p className="text-gray-400 text-xs mb-3">
+                {pendingRestore.session.images.length} 张图片，
+                {pendingRestore.session.images.reduce((sum, img) => sum + img.annotations.length, 0)} 个标注，
+                保存于 {new Date(pendingRestore.session.savedAt).toLocaleString()}
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleRestoreSession}
+                  className="bg-amber-600 hover:bg-amber-500 text-white text-xs font-semibold py-1.5 px-4 rounded transition-colors"
+                >
+                  恢复会话
+                </button>
+                <button
+                  onClick={handleDiscardSession}
+                  className="bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs py-1.5 px-4 rounded transition-colors"
+                >
+                  丢弃
+                </button>
+              </div>
+            </div>
+          )}
           <Upload size={48} className="text-gray-400 mb-4" />
           <h1 className="text-2xl font-bold mb-2">上传卡片图片</h1>
-          <p className="text-gray-400 mb-6 text-center">支持高分辨率图片，用于细节评级</p>
+          <p className="text-gray-400 mb-6 text-center">支持高分辨率图片，用于细节评级；可多选或选择整个文件夹</p>
           <input
             type="file"
             accept="image/*"
+            multiple
             onChange={handleImageUpload}
             ref={fileInputRef}
             className="hidden"
           />
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
-          >
-            选择文件
-          </button>
+          <input
+            type="file"
+            onChange={handleImageUpload}
+            ref={folderInputRef}
+            className="hidden"
+            {...{ webkitdirectory: '', directory: '' }}
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+            >
+              选择文件
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-6 rounded-lg transition-colors"
+            >
+              <FolderOpen size={16} />
+              选择文件夹
+            </button>
+          </div>
         </div>
       </div>
     );
@@ -407,9 +1081,34 @@ const App: React.FC = () => {
         redoAction={nextRedoAction}
         keyMap={keyMap}
         onOpenSettings={() => setShowSettings(true)}
+        onAutoDetect={handleAutoDetect}
+        isDetecting={aiStatus.running}
+        detectionMode={detectionSettings.mode}
+        onToggleDetectionMode={() => setDetectionSettings(prev => ({ ...prev, mode: prev.mode === 'polygon' ? 'box' : 'polygon' }))}
       />
       
       <div className="flex-1 flex flex-col relative overflow-hidden">
+        {(aiStatus.running || aiStatus.error) && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-4 py-2 rounded-lg border shadow-xl backdrop-blur-sm text-sm bg-gray-900/90 border-gray-700">
+            {aiStatus.running ? (
+              <>
+                <Loader2 size={16} className="animate-spin text-purple-400" />
+                <span className="text-gray-200">AI 正在检测瑕疵...{aiStatus.progress && <span className="ml-1 font-mono text-gray-400">({aiStatus.progress})</span>}</span>
+                <button onClick={handleCancelDetection} className="text-gray-500 hover:text-white" title="取消检测">
+                  <X size={14} />
+                </button>
+              </>
+            ) : (
+              <>
+                <AlertTriangle size={16} className="text-amber-400" />
+                <span className="text-gray-200 max-w-md truncate" title={aiStatus.error || ''}>AI 检测: {aiStatus.error}</span>
+                <button onClick={() => setAiStatus({ running: false, error: null })} className="text-gray-500 hover:text-white">
+                  <X size={14} />
+                </button>
+              </>
+            )}
+          </div>
+        )}
         <CanvasArea
           imageSrc={imageSrc}
           fileName={fileName}
@@ -431,6 +1130,12 @@ const App: React.FC = () => {
           padding={canvasPadding}
           imageFilters={imageFilters}
           gridSettings={gridSettings}
+          reviewThreshold={reviewThreshold}
+          centering={centering}
+          onCenteringChange={setCentering}
+          previewAnnotations={refinePreview ?? simplifyPreview}
+          wandTolerance={wandTolerance}
+          onWandToleranceChange={setWandTolerance}
         />
         
         {labelPopup.visible && (
@@ -440,6 +1145,19 @@ const App: React.FC = () => {
             onClose={() => setLabelPopup({ ...labelPopup, visible: false })}
           />
         )}
+
+        <ImageNavigator
+          images={images}
+          currentImageId={currentImageId}
+          onSelectImage={handleSelectImage}
+          onPrev={() => handleNavigateImage(-1)}
+          onNext={() => handleNavigateImage(1)}
+          onAddFiles={handleAddFiles}
+          onSetStatus={handleSetImageStatus}
+          onRemoveImage={handleRemoveImage}
+          onCloseProject={handleCloseProject}
+          keyMap={keyMap}
+        />
       </div>
 
       <Sidebar
@@ -450,8 +1168,10 @@ const App: React.FC = () => {
         onDelete={handleDelete}
         onToggleVisible={handleToggleVisible}
         onToggleLock={handleToggleLock}
+        onUpdateStrokeWidth={handleUpdateStrokeWidth}
         onEditLabel={handleEditLabel}
         onExport={handleExport}
+        onImport={handleImport}
         fillOpacity={fillOpacity}
         onFillOpacityChange={setFillOpacity}
         showCrosshairs={showCrosshairs}
@@ -464,6 +1184,32 @@ const App: React.FC = () => {
         onUpdateGridSettings={setGridSettings}
         onAlign={handleAlign}
         onDistribute={handleDistribute}
+        reviewThreshold={reviewThreshold}
+        onReviewThresholdChange={setReviewThreshold}
+        onAcceptSuggestions={handleAcceptSuggestions}
+        onRejectSuggestions={handleRejectSuggestions}
+        onEditSuggestion={handleEditSuggestion}
+        gradingConfig={gradingConfig}
+        onUpdateGradingConfig={setGradingConfig}
+        centering={centering}
+        onClearCentering={() => setCentering(null)}
+        onAutoCentering={handleAutoCentering}
+        isDetectingCentering={isDetectingCentering}
+        onStartCentering={() => setCurrentTool('centering')}
+        refineRadius={refineRadius}
+        onRefineRadiusChange={setRefineRadius}
+        hasRefinePreview={refinePreview !== null}
+        isRefining={isRefining}
+        onPreviewRefine={handlePreviewRefine}
+        onApplyRefine={handleApplyRefine}
+        onCancelRefine={() => setRefinePreview(null)}
+        onShapeOperation={handleShapeOperation}
+        simplifyOptions={simplifyOptions}
+        onSimplifyOptionsChange={setSimplifyOptions}
+        simplifyPreview={simplifyPreview}
+        onPreviewSimplify={handlePreviewSimplify}
+        onApplySimplify={handleApplySimplify}
+        onCancelSimplify={() => setIsSimplifyPreviewing(false)}
       />
 
       <SettingsModal
@@ -472,6 +1218,8 @@ const App: React.FC = () => {
         keyMap={keyMap}
         onUpdateKeyMap={setKeyMap}
         onResetDefaults={() => setKeyMap(DEFAULT_KEY_MAP)}
+        detectionSettings={detectionSettings}
+        onUpdateDetectionSettings={setDetectionSettings}
       />
     </div>
   );
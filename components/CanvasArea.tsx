@@ -1,8 +1,32 @@
 import React, { useRef, useEffect, useState, CSSProperties } from 'react';
-import { Annotation, Point, ToolType, ViewTransform, ImageSize, KeyMap, ImageFilters, GridSettings } from '../types';
-import { screenToImage, isPointNearVertex, getDistanceToSegment, imageToScreen, getAnnotationArea } from '../utils/geometry';
+import { Annotation, Point, ToolType, ViewTransform, ImageSize, KeyMap, ImageFilters, GridSettings, CenteringMeasurement } from '../types';
+import { screenToImage, isPointNearVertex, getDistanceToSegment, imageToScreen, getAnnotationArea, getAnnotationAreaPercentage, getAnnotationOutline, getAnnotationBounds, getDistanceToPolyline, getPolylineLength, getStrokeWidth, getCircleRadius, getPointsBounds, isPointInRoundShape, getRotatedBox, rotatePoints, resizeRotatedRect, isPointInPolygon, moveAnnotation } from '../utils/geometry';
 import { getLabelName } from '../constants';
-import { isShortcutPressed } from '../utils/keyboard';
+import { isShortcutPressed, isEditableTarget } from '../utils/keyboard';
+import { getImageFilterCss, AnalysisImage } from '../utils/image';
+import { isAnnotationShown } from '../utils/annotation';
+import { boxFromPoints, findCenteringEdge, moveCenteringEdge, CenteringEdge } from '../utils/centering';
+import { loadWandImage, floodFill, combineMasks, maskToPolygon, WandMode } from '../utils/magicWand';
+import { CenteringOverlay } from './CenteringOverlay';
+
+// On-screen radius of point markers
+const POINT_RADIUS = 6;
+
+// Rotated rectangles get an extra handle beyond the middle of their first edge
+const ROTATE_HANDLE_INDEX = 4;
+const ROTATE_HANDLE_OFFSET = 24; // Screen pixels
+const ROTATE_SNAP = Math.PI / 12; // 15° steps with Shift
+
+const getRotateHandle = (points: Point[], scale: number): Point => {
+  const box = getRotatedBox(points);
+  const mid = { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+  const dx = mid.x - box.centerX;
+  const dy = mid.y - box.centerY;
+  const length = Math.hypot(dx, dy);
+  // A flat box has no "outside" direction; fall back to the edge normal
+  const [nx, ny] = length > 0 ? [dx / length, dy / length] : [Math.sin(box.angle), -Math.cos(box.angle)];
+  return { x: mid.x + nx * ROTATE_HANDLE_OFFSET / scale, y: mid.y + ny * ROTATE_HANDLE_OFFSET / scale };
+};
 
 interface CanvasAreaProps {
   imageSrc: string;
@@ -25,6 +49,12 @@ interface CanvasAreaProps {
   padding: { x: number; y: number };
   imageFilters: ImageFilters;
   gridSettings: GridSettings;
+  reviewThreshold: number;
+  centering: CenteringMeasurement | null;
+  onCenteringChange: (centering: CenteringMeasurement | null) => void;
+  previewAnnotations: Annotation[] | null; // Proposed edits (edge snapping, simplification), drawn dashed
+  wandTolerance: number;
+  onWandToleranceChange: (tolerance: number) => void;
 }
 
 export const CanvasArea: React.FC<CanvasAreaProps> = ({
@@ -47,7 +77,13 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
   keyMap,
   padding,
   imageFilters,
-  gridSettings
+  gridSettings,
+  reviewThreshold,
+  centering,
+  onCenteringChange,
+  previewAnnotations,
+  wandTolerance,
+  onWandToleranceChange
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -62,10 +98,17 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
   
   // Drawing states
   const [pendingPoly, setPendingPoly] = useState<Point[]>([]);
+  const [pendingLine, setPendingLine] = useState<Point[]>([]);
   const [pendingRectStart, setPendingRectStart] = useState<Point | null>(null);
+  const [pendingCenteringStart, setPendingCenteringStart] = useState<Point | null>(null);
+  const [pendingWandPoly, setPendingWandPoly] = useState<Point[]>([]);
+  const wandMaskRef = useRef<Uint8Array | null>(null);
+  const wandImageRef = useRef<{ src: string; image: Promise<AnalysisImage> } | null>(null);
 
   // Editing states
   const [activeVertex, setActiveVertex] = useState<{ id: string; index: number } | null>(null);
+  const [activeCenteringEdge, setActiveCenteringEdge] = useState<CenteringEdge | null>(null);
+  const [hoveredCenteringEdge, setHoveredCenteringEdge] = useState<CenteringEdge | null>(null);
   const [isSpacePressed, setIsSpacePressed] = useState(false);
 
   // Helper to get mouse pos relative to container
@@ -92,11 +135,111 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
 
   const handleCancelDraw = () => {
     setPendingPoly([]);
+    setPendingLine([]);
     setPendingRectStart(null);
+    wandMaskRef.current = null;
+    setPendingWandPoly([]);
+  };
+
+  // --- Magic Wand ---
+  // Clicks build up a pending region (shift adds, alt subtracts); Enter turns
+  // it into a polygon annotation.
+
+  useEffect(() => {
+    wandMaskRef.current = null;
+    setPendingWandPoly([]);
+  }, [imageSrc, currentTool]);
+
+  const getWandImage = () => {
+    if (!wandImageRef.current || wandImageRef.current.src !== imageSrc) {
+      wandImageRef.current = { src: imageSrc, image: loadWandImage(imageSrc) };
+    }
+    return wandImageRef.current.image;
+  };
+
+  const applyWand = async (seed: Point, mode: WandMode) => {
+    if (mode === 'subtract' && !wandMaskRef.current) return;
+    const src = imageSrc;
+    let wandImage: AnalysisImage;
+    try {
+      wandImage = await getWandImage();
+    } catch (error) {
+      // Do not keep the failed load around; the next click should retry
+      if (wandImageRef.current?.src === src) wandImageRef.current = null;
+      alert(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    if (src !== wandImageRef.current?.src) return;
+    const mask = combineMasks(wandMaskRef.current, floodFill(wandImage, seed, wandTolerance), mode);
+    const polygon = maskToPolygon(wandImage, mask);
+    wandMaskRef.current = polygon.length > 0 ? mask : null;
+    setPendingWandPoly(polygon);
+  };
+
+  const handleConfirmWand = () => {
+    if (pendingWandPoly.length < 3) return;
+    onSnapshot('魔棒选区');
+    const newPoly: Annotation = {
+      id: Date.now().toString(),
+      label: 'defect',
+      type: 'polygon',
+      points: pendingWandPoly,
+      color: currentColor,
+      visible: true,
+      locked: false
+    };
+    onAnnotationsChange([...annotations, newPoly]);
+    onSelect([newPoly.id]);
+    wandMaskRef.current = null;
+    setPendingWandPoly([]);
+
+    const centerX = pendingWandPoly.reduce((sum, p) => sum + p.x, 0) / pendingWandPoly.length;
+    const centerY = pendingWandPoly.reduce((sum, p) => sum + p.y, 0) / pendingWandPoly.length;
+    onShapeComplete(newPoly.id, imageToScreen(centerX + padding.x, centerY + padding.y, transform));
   };
 
   const handleUndoPoint = () => {
     setPendingPoly(prev => prev.slice(0, -1));
+    setPendingLine(prev => prev.slice(0, -1));
+  };
+
+  // Hit test used for selection and hover: polylines by distance to the
+  // line, round shapes by their outline, everything else by its bounding box
+  const isPointOnAnnotation = (ann: Annotation, p: Point): boolean => {
+    const buffer = 5 / transform.scale;
+    if (ann.type === 'polyline') {
+      return getDistanceToPolyline(p, ann.points) <= buffer + getStrokeWidth(ann) / 2;
+    }
+    if (ann.type === 'rotated_rect') {
+      return isPointInPolygon(p, ann.points) ||
+        ann.points.some((v, i) => getDistanceToSegment(p, v, ann.points[(i + 1) % 4]) <= buffer);
+    }
+    if (ann.type === 'point') return isPointInRoundShape(ann, p, POINT_RADIUS / transform.scale + buffer);
+    if (ann.type === 'circle' || ann.type === 'ellipse') return isPointInRoundShape(ann, p, buffer);
+    const b = getAnnotationBounds(ann);
+    return p.x >= b.minX - buffer && p.x <= b.maxX + buffer && p.y >= b.minY - buffer && p.y <= b.maxY + buffer;
+  };
+
+  // Finishes the pending polyline (Enter or double-click); needs 2 points
+  const handleFinishLine = () => {
+    // A double-click lands its second click on the last point again
+    const points = pendingLine.filter((p, i) => i === 0 || Math.hypot(p.x - pendingLine[i - 1].x, p.y - pendingLine[i - 1].y) > 1 / transform.scale);
+    if (points.length < 2) return;
+    const newLine: Annotation = {
+      id: Date.now().toString(),
+      label: 'defect',
+      type: 'polyline',
+      points,
+      color: currentColor,
+      visible: true,
+      locked: false
+    };
+    onAnnotationsChange([...annotations, newLine]);
+    onSelect([newLine.id]);
+    setPendingLine([]);
+
+    const last = points[points.length - 1];
+    onShapeComplete(newLine.id, imageToScreen(last.x + padding.x, last.y + padding.y, transform));
   };
 
   // --- Wheel Zoom Logic (Mouse Centered) ---
@@ -138,7 +281,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
   // --- Keyboard Shortcuts (Spacebar, Esc, Backspace, Nudge) ---
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.target as HTMLElement).tagName === 'INPUT') return;
+      if (isEditableTarget(e.target)) return;
 
       if (e.code === 'Space' && !e.repeat) {
         setIsSpacePressed(true);
@@ -153,6 +296,23 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
         if (isShortcutPressed(e, keyMap.CANCEL)) handleCancelDraw();
         return;
       }
+      if (pendingLine.length > 0) {
+        if (isShortcutPressed(e, keyMap.CANCEL)) handleCancelDraw();
+        if (isShortcutPressed(e, keyMap.BACKSPACE_POINT)) handleUndoPoint();
+        if (isShortcutPressed(e, keyMap.CONFIRM)) {
+          e.preventDefault();
+          handleFinishLine();
+        }
+        return;
+      }
+      if (pendingWandPoly.length > 0) {
+        if (isShortcutPressed(e, keyMap.CANCEL)) handleCancelDraw();
+        if (isShortcutPressed(e, keyMap.CONFIRM)) {
+          e.preventDefault();
+          handleConfirmWand();
+        }
+        return;
+      }
 
       // Nudge selected items
       if (selectedIds.length > 0 && !activeVertex) {
@@ -176,10 +336,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
           onAnnotationsChange(annotations.map(ann => {
             if (!selectedIds.includes(ann.id)) return ann;
             const scaleFactor = 1 / transform.scale; 
-            return {
-              ...ann,
-              points: ann.points.map(p => ({ x: p.x + dx * scaleFactor, y: p.y + dy * scaleFactor }))
-            };
+            return moveAnnotation(ann, dx * scaleFactor, dy * scaleFactor);
           }));
         }
       }
@@ -198,7 +355,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [selectedIds, annotations, activeVertex, pendingPoly, pendingRectStart, onAnnotationsChange, transform.scale, onSnapshot, keyMap]);
+  }, [selectedIds, annotations, activeVertex, pendingPoly, pendingRectStart, pendingLine, pendingWandPoly, onAnnotationsChange, transform, currentColor, onSnapshot, keyMap]);
 
 
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -223,7 +380,31 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
         if (ann && !ann.locked) {
           const threshold = 10 / transform.scale;
           
-          if (ann.type === 'rectangle') {
+          if (ann.type === 'rotated_rect') {
+            if (isPointNearVertex(getRotateHandle(ann.points, transform.scale), imgPos, threshold, 1)) {
+              onSnapshot('旋转矩形');
+              setActiveVertex({ id: selectedId, index: ROTATE_HANDLE_INDEX });
+              return;
+            }
+            const hitIndex = ann.points.findIndex(p => isPointNearVertex(p, imgPos, threshold, 1));
+            if (hitIndex !== -1) {
+              onSnapshot('调整旋转矩形大小');
+              setActiveVertex({ id: selectedId, index: hitIndex });
+              return;
+            }
+
+          } else if (ann.type === 'circle') {
+            // All four rim handles set the radius; the center moves with the body
+            const c = ann.points[0];
+            const r = getCircleRadius(ann.points);
+            const rim = [{ x: c.x + r, y: c.y }, { x: c.x, y: c.y + r }, { x: c.x - r, y: c.y }, { x: c.x, y: c.y - r }];
+            if (rim.some(p => isPointNearVertex(p, imgPos, threshold, 1))) {
+              onSnapshot('调整圆形大小');
+              setActiveVertex({ id: selectedId, index: 1 });
+              return;
+            }
+
+          } else if (ann.type === 'rectangle' || ann.type === 'ellipse') {
             const x1 = Math.min(ann.points[0].x, ann.points[1].x);
             const y1 = Math.min(ann.points[0].y, ann.points[1].y);
             const x2 = Math.max(ann.points[0].x, ann.points[1].x);
@@ -236,17 +417,17 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
             
             const hitIndex = corners.findIndex(c => isPointNearVertex(c, imgPos, threshold, 1));
             if (hitIndex !== -1) {
-              onSnapshot('调整矩形大小');
+              onSnapshot(ann.type === 'ellipse' ? '调整椭圆大小' : '调整矩形大小');
               setActiveVertex({ id: selectedId, index: hitIndex });
               return;
             }
 
-          } else if (ann.type === 'polygon') {
+          } else if (ann.type === 'polygon' || ann.type === 'polyline') {
             const clickedVertexIndex = ann.points.findIndex(p => isPointNearVertex(p, imgPos, threshold, 1));
             
             if (clickedVertexIndex !== -1) {
               if (e.altKey) {
-                if (ann.points.length > 3) {
+                if (ann.points.length > (ann.type === 'polyline' ? 2 : 3)) {
                   onSnapshot('删除顶点');
                   const newPoints = ann.points.filter((_, i) => i !== clickedVertexIndex);
                   onAnnotationsChange(annotations.map(a => a.id === selectedId ? { ...a, points: newPoints } : a));
@@ -275,16 +456,9 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
       // B. Check for Shape Body Click
       for (let i = annotations.length - 1; i >= 0; i--) {
         const ann = annotations[i];
-        if (!ann.visible || ann.locked) continue;
-        
-        const xs = ann.points.map(p => p.x);
-        const ys = ann.points.map(p => p.y);
-        const minX = Math.min(...xs), maxX = Math.max(...xs);
-        const minY = Math.min(...ys), maxY = Math.max(...ys);
-        const buffer = 5 / transform.scale;
+        if (!isAnnotationShown(ann, reviewThreshold) || ann.locked) continue;
         
-        if (imgPos.x >= minX - buffer && imgPos.x <= maxX + buffer && 
-            imgPos.y >= minY - buffer && imgPos.y <= maxY + buffer) {
+        if (isPointOnAnnotation(ann, imgPos)) {
            
            if (e.ctrlKey || e.metaKey) {
              if (selectedIds.includes(ann.id)) {
@@ -307,14 +481,59 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
       return;
     }
 
-    // 3. Drawing Rectangle
-    if (currentTool === 'rectangle') {
-      onSnapshot('创建矩形');
+    // 3. Centering: drag an existing border line, otherwise draw the outer
+    // card edge first and the inner print border second
+    if (currentTool === 'centering') {
+      const edge = centering ? findCenteringEdge(centering, imgPos, 8 / transform.scale) : null;
+      if (edge) {
+        setActiveCenteringEdge(edge);
+      } else {
+        setPendingCenteringStart(imgPos);
+      }
+      return;
+    }
+
+    // 4. Magic wand region
+    if (currentTool === 'magic_wand') {
+      e.preventDefault();
+      applyWand(imgPos, e.shiftKey ? 'add' : e.altKey ? 'subtract' : 'replace');
+      return;
+    }
+
+    // 5. Drawing Rectangle / Circle / Ellipse (drag from corner or center).
+    // Rotated rectangles start axis-aligned and are turned with their handle.
+    if (currentTool === 'rectangle' || currentTool === 'rotated_rect' || currentTool === 'circle' || currentTool === 'ellipse') {
+      onSnapshot({ rectangle: '创建矩形', rotated_rect: '创建旋转矩形', circle: '创建圆形', ellipse: '创建椭圆' }[currentTool]);
       setPendingRectStart(imgPos);
       return;
     }
 
-    // 4. Drawing Polygon
+    // Points are placed with a single click
+    if (currentTool === 'point') {
+      onSnapshot('创建点');
+      const newPoint: Annotation = {
+        id: Date.now().toString(),
+        label: 'defect',
+        type: 'point',
+        points: [imgPos],
+        color: currentColor,
+        visible: true,
+        locked: false
+      };
+      onAnnotationsChange([...annotations, newPoint]);
+      onSelect([newPoint.id]);
+      onShapeComplete(newPoint.id, imageToScreen(imgPos.x + padding.x, imgPos.y + padding.y, transform));
+      return;
+    }
+
+    // 6. Drawing Polyline
+    if (currentTool === 'polyline') {
+      if (pendingLine.length === 0) onSnapshot('创建折线');
+      setPendingLine(prev => [...prev, imgPos]);
+      return;
+    }
+
+    // 7. Drawing Polygon
     if (currentTool === 'polygon') {
       if (pendingPoly.length === 0) onSnapshot('创建多边形');
 
@@ -359,6 +578,14 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
     };
     setCurrentMouseImagePos(clampedPos);
 
+    if (currentTool === 'centering') {
+      if (activeCenteringEdge && centering) {
+        onCenteringChange(moveCenteringEdge(centering, activeCenteringEdge, clampedPos));
+        return;
+      }
+      setHoveredCenteringEdge(centering && !pendingCenteringStart ? findCenteringEdge(centering, imgPos, 8 / transform.scale) : null);
+    }
+
     if (currentTool === 'polygon' && pendingPoly.length >= 3) {
        const startPoint = pendingPoly[0];
        const dist = Math.sqrt(Math.pow(imgPos.x - startPoint.x, 2) + Math.pow(imgPos.y - startPoint.y, 2));
@@ -370,10 +597,12 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
     if (currentTool === 'select' && selectedIds.length === 1 && !activeVertex && !isDragging) {
       const selectedId = selectedIds[0];
       const ann = annotations.find(a => a.id === selectedId);
-      if (ann && ann.type === 'polygon' && !ann.locked) {
+      if (ann && (ann.type === 'polygon' || ann.type === 'polyline') && !ann.locked) {
         const edgeThreshold = 8 / transform.scale;
         let foundEdge = null;
-        for (let i = 0; i < ann.points.length; i++) {
+        // Polylines have no closing edge
+        const edgeCount = ann.type === 'polyline' ? ann.points.length - 1 : ann.points.length;
+        for (let i = 0; i < edgeCount; i++) {
           const p1 = ann.points[i];
           const p2 = ann.points[(i + 1) % ann.points.length];
           const dist = getDistanceToSegment(imgPos, p1, p2);
@@ -390,18 +619,12 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
       setHoveredEdge(null);
     }
 
-    if (!isDragging && !pendingRectStart && pendingPoly.length === 0) {
+    if (!isDragging && !pendingRectStart && pendingPoly.length === 0 && pendingLine.length === 0) {
       let foundId = null;
       for (let i = annotations.length - 1; i >= 0; i--) {
         const ann = annotations[i];
-        if (!ann.visible) continue;
-        const xs = ann.points.map(p => p.x);
-        const ys = ann.points.map(p => p.y);
-        const minX = Math.min(...xs), maxX = Math.max(...xs);
-        const minY = Math.min(...ys), maxY = Math.max(...ys);
-        const buffer = 5 / transform.scale;
-        if (imgPos.x >= minX - buffer && imgPos.x <= maxX + buffer && 
-            imgPos.y >= minY - buffer && imgPos.y <= maxY + buffer) {
+        if (!isAnnotationShown(ann, reviewThreshold)) continue;
+        if (isPointOnAnnotation(ann, imgPos)) {
              foundId = ann.id;
              break;
         }
@@ -435,10 +658,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
 
       const newAnnotations = annotations.map(ann => {
         if (!selectedIds.includes(ann.id)) return ann;
-        return {
-          ...ann,
-          points: ann.points.map(p => ({ x: p.x + dx, y: p.y + dy }))
-        };
+        return moveAnnotation(ann, dx, dy);
       });
       onAnnotationsChange(newAnnotations);
       setDragStart(imgPos); 
@@ -450,7 +670,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
       const ann = annotations.find(a => a.id === selectedId);
       if (!ann || ann.locked) return;
 
-      if (ann.type === 'rectangle') {
+      if (ann.type === 'rectangle' || ann.type === 'ellipse') {
         const p1 = ann.points[0], p2 = ann.points[1];
         let newP1 = { ...p1 }, newP2 = { ...p2 };
         const minX = Math.min(p1.x, p2.x), maxX = Math.max(p1.x, p2.x);
@@ -464,6 +684,23 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
         const newAnn = { ...ann, points: [newP1, newP2] };
         onAnnotationsChange(annotations.map(a => a.id === selectedId ? newAnn : a));
 
+      } else if (ann.type === 'rotated_rect') {
+        let newPoints: Point[];
+        if (activeVertex.index === ROTATE_HANDLE_INDEX) {
+          const box = getRotatedBox(ann.points);
+          const center = { x: box.centerX, y: box.centerY };
+          const handle = getRotateHandle(ann.points, transform.scale);
+          let delta = Math.atan2(imgPos.y - center.y, imgPos.x - center.x) - Math.atan2(handle.y - center.y, handle.x - center.x);
+          if (e.shiftKey) delta = Math.round((box.angle + delta) / ROTATE_SNAP) * ROTATE_SNAP - box.angle;
+          newPoints = rotatePoints(ann.points, center, delta);
+        } else {
+          newPoints = resizeRotatedRect(ann.points, activeVertex.index, imgPos);
+          // Collapsing a side would lose the rotation
+          const box = getRotatedBox(newPoints);
+          if (box.width < 1 || box.height < 1) return;
+        }
+        onAnnotationsChange(annotations.map(a => a.id === selectedId ? { ...ann, points: newPoints } : a));
+
       } else {
         const newPoints = [...ann.points];
         newPoints[activeVertex.index] = imgPos;
@@ -478,15 +715,47 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
     setIsDragging(false);
     setDragStart(null);
     setActiveVertex(null);
+    setActiveCenteringEdge(null);
+
+    if (pendingCenteringStart) {
+      const imgPos = currentMouseImagePos || pendingCenteringStart;
+      if (Math.abs(imgPos.x - pendingCenteringStart.x) > 1 && Math.abs(imgPos.y - pendingCenteringStart.y) > 1) {
+        const box = boxFromPoints(pendingCenteringStart, imgPos);
+        onCenteringChange(centering && !centering.inner ? { ...centering, inner: box } : { outer: box, inner: null });
+      }
+      setPendingCenteringStart(null);
+    }
+
+    if (pendingRectStart && currentTool === 'circle') {
+      const imgPos = currentMouseImagePos || pendingRectStart;
+      if (getCircleRadius([pendingRectStart, imgPos]) > 1) {
+        const newCircle: Annotation = {
+          id: Date.now().toString(),
+          label: 'defect',
+          type: 'circle',
+          points: [pendingRectStart, imgPos],
+          color: currentColor,
+          visible: true,
+          locked: false
+        };
+        onAnnotationsChange([...annotations, newCircle]);
+        onSelect([newCircle.id]);
+        onShapeComplete(newCircle.id, imageToScreen(pendingRectStart.x + padding.x, pendingRectStart.y + padding.y, transform));
+      }
+      setPendingRectStart(null);
+    }
 
-    if (pendingRectStart && currentTool === 'rectangle') {
+    if (pendingRectStart && (currentTool === 'rectangle' || currentTool === 'rotated_rect' || currentTool === 'ellipse')) {
       const imgPos = currentMouseImagePos || { x: 0, y: 0 };
       if (Math.abs(imgPos.x - pendingRectStart.x) > 1 && Math.abs(imgPos.y - pendingRectStart.y) > 1) {
+        const b = getPointsBounds([pendingRectStart, imgPos]);
         const newRect: Annotation = {
           id: Date.now().toString(),
           label: 'defect',
-          type: 'rectangle',
-          points: [pendingRectStart, imgPos],
+          type: currentTool,
+          points: currentTool === 'rotated_rect'
+            ? [{ x: b.minX, y: b.minY }, { x: b.maxX, y: b.minY }, { x: b.maxX, y: b.maxY }, { x: b.minX, y: b.maxY }]
+            : [pendingRectStart, imgPos],
           color: currentColor,
           visible: true,
           locked: false
@@ -507,7 +776,9 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
     '--scale': transform.scale,
     cursor: isSpacePressed ? 'grab' : 
             currentTool === 'pan' ? (isDragging ? 'grabbing' : 'grab') :
-            currentTool === 'rectangle' || currentTool === 'polygon' ? 'crosshair' : 
+            currentTool === 'centering' && (activeCenteringEdge || hoveredCenteringEdge) ?
+              (['left', 'right'].includes((activeCenteringEdge || hoveredCenteringEdge)!.side) ? 'ew-resize' : 'ns-resize') :
+            currentTool === 'rectangle' || currentTool === 'rotated_rect' || currentTool === 'polygon' || currentTool === 'polyline' || currentTool === 'point' || currentTool === 'circle' || currentTool === 'ellipse' || currentTool === 'magic_wand' || currentTool === 'centering' ? 'crosshair' : 
             hoveredEdge ? 'copy' :
             'default'
   } as React.CSSProperties;
@@ -520,6 +791,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onMouseLeave={handleMouseUp}
+      onDoubleClick={() => currentTool === 'polyline' && handleFinishLine()}
       style={style}
     >
       {showImageName && fileName && (
@@ -548,7 +820,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
                 width: imageSize.width,
                 height: imageSize.height,
                 maxWidth: 'none',
-                filter: `brightness(${imageFilters.brightness}%) contrast(${imageFilters.contrast}%) saturate(${imageFilters.saturation}%)`
+                filter: getImageFilterCss(imageFilters)
               }}
               draggable={false}
             />
@@ -579,12 +851,15 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
 
               {/* Annotations */}
               {annotations.map((ann) => {
-                if (!ann.visible) return null;
+                if (!isAnnotationShown(ann, reviewThreshold)) return null;
                 const isSelected = selectedIds.includes(ann.id);
                 const isHovered = hoveredAnnotationId === ann.id;
                 
-                const opacity = isSelected ? Math.min(0.8, fillOpacity + 0.3) : isHovered ? Math.min(0.6, fillOpacity + 0.1) : fillOpacity;
+                const baseOpacity = isSelected ? Math.min(0.8, fillOpacity + 0.3) : isHovered ? Math.min(0.6, fillOpacity + 0.1) : fillOpacity;
+                // AI suggestions are drawn dashed and fainter until accepted
+                const opacity = ann.proposed ? baseOpacity / 2 : baseOpacity;
                 const strokeColor = ann.locked ? '#fbbf24' : ann.color;
+                const dashArray = ann.proposed ? "10 6" : ann.locked ? "4 2" : "none";
                 
                 // Bold lines for visibility: 6px for selected/hovered, 4px for normal
                 const strokeWidth = isSelected || isHovered ? "6px" : "4px";
@@ -602,11 +877,84 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
                         fill={ann.color}
                         fillOpacity={opacity}
                         stroke={strokeColor}
-                        strokeDasharray={ann.locked ? "4 2" : "none"}
+                        strokeDasharray={dashArray}
                         style={{ strokeWidth, vectorEffect: 'non-scaling-stroke' }}
                       />
                     </g>
                   );
+                } else if (ann.type === 'point') {
+                  // Marker keeps its on-screen size at any zoom
+                  return (
+                    <g key={ann.id} style={{ opacity: ann.locked ? 0.7 : 1 }}>
+                      <circle
+                        cx={ann.points[0].x} cy={ann.points[0].y}
+                        r={POINT_RADIUS / transform.scale}
+                        fill={ann.color}
+                        fillOpacity={ann.proposed ? 0.5 : 1}
+                        stroke={isSelected || isHovered ? 'white' : strokeColor}
+                        strokeDasharray={dashArray}
+                        style={{ strokeWidth: "2px", vectorEffect: 'non-scaling-stroke' }}
+                      />
+                    </g>
+                  );
+                } else if (ann.type === 'circle' || ann.type === 'ellipse') {
+                  const b = getAnnotationBounds(ann);
+                  return (
+                    <g key={ann.id} style={{ opacity: ann.locked ? 0.7 : 1 }}>
+                      <ellipse
+                        cx={b.centerX} cy={b.centerY} rx={b.width / 2} ry={b.height / 2}
+                        fill={ann.color}
+                        fillOpacity={opacity}
+                        stroke={strokeColor}
+                        strokeDasharray={dashArray}
+                        style={{ strokeWidth, vectorEffect: 'non-scaling-stroke' }}
+                      />
+                    </g>
+                  );
+                } else if (ann.type === 'polyline') {
+                  const pointsStr = ann.points.map(p => `${p.x},${p.y}`).join(' ');
+                  return (
+                    <g key={ann.id} style={{ opacity: ann.locked ? 0.7 : 1 }}>
+                      {/* Real defect width underneath, scaled with the image */}
+                      <polyline
+                        points={pointsStr}
+                        fill="none"
+                        stroke={ann.color}
+                        strokeOpacity={opacity}
+                        strokeWidth={getStrokeWidth(ann)}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      />
+                      <polyline
+                        points={pointsStr}
+                        fill="none"
+                        stroke={strokeColor}
+                        style={{ strokeWidth, vectorEffect: 'non-scaling-stroke' }}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeDasharray={dashArray}
+                      />
+                    </g>
+                  );
+                } else if (ann.holes?.length) {
+                  // Outer ring and holes in one path, filled even-odd
+                  const d = [ann.points, ...ann.holes]
+                    .map(ring => `M${ring.map(p => `${p.x},${p.y}`).join('L')}Z`)
+                    .join(' ');
+                  return (
+                     <g key={ann.id} style={{ opacity: ann.locked ? 0.7 : 1 }}>
+                       <path
+                         d={d}
+                         fillRule="evenodd"
+                         fill={ann.color}
+                         fillOpacity={opacity}
+                         stroke={strokeColor}
+                         style={{ strokeWidth, vectorEffect: 'non-scaling-stroke' }}
+                         strokeLinejoin="round"
+                         strokeDasharray={dashArray}
+                       />
+                     </g>
+                  );
                 } else {
                   const pointsStr = ann.points.map(p => `${p.x},${p.y}`).join(' ');
                   return (
@@ -618,15 +966,57 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
                          stroke={strokeColor}
                          style={{ strokeWidth, vectorEffect: 'non-scaling-stroke' }}
                          strokeLinejoin="round"
-                         strokeDasharray={ann.locked ? "4 2" : "none"}
+                         strokeDasharray={dashArray}
                        />
                      </g>
                   );
                 }
               })}
 
+              {/* Edge snapping / simplification preview */}
+              {previewAnnotations?.map(ann => (
+                <path
+                  key={`preview-${ann.id}`}
+                  d={(ann.type === 'polygon' ? [ann.points, ...(ann.holes ?? [])] : [getAnnotationOutline(ann)])
+                    .map(ring => `M${ring.map(p => `${p.x},${p.y}`).join('L')}Z`)
+                    .join(' ')}
+                  fill="none"
+                  stroke="white"
+                  style={{ strokeWidth: "2px", vectorEffect: 'non-scaling-stroke' }}
+                  strokeDasharray="6 3"
+                  strokeLinejoin="round"
+                  className="pointer-events-none"
+                />
+              ))}
+
+              {/* Centering Measurement */}
+              <CenteringOverlay
+                measurement={centering}
+                pendingBox={pendingCenteringStart && currentMouseImagePos ? boxFromPoints(pendingCenteringStart, currentMouseImagePos) : null}
+                scale={transform.scale}
+                showHandles={currentTool === 'centering'}
+              />
+
               {/* Pending Shapes */}
-              {pendingRectStart && currentTool === 'rectangle' && currentMouseImagePos && (
+              {pendingRectStart && (currentTool === 'circle' || currentTool === 'ellipse') && currentMouseImagePos && (() => {
+                const r = getCircleRadius([pendingRectStart, currentMouseImagePos]);
+                const b = getPointsBounds([pendingRectStart, currentMouseImagePos]);
+                return (
+                  <ellipse
+                    cx={currentTool === 'circle' ? pendingRectStart.x : b.centerX}
+                    cy={currentTool === 'circle' ? pendingRectStart.y : b.centerY}
+                    rx={currentTool === 'circle' ? r : b.width / 2}
+                    ry={currentTool === 'circle' ? r : b.height / 2}
+                    fill={currentColor}
+                    fillOpacity={0.2}
+                    stroke={currentColor}
+                    style={{ strokeWidth: "4px", vectorEffect: 'non-scaling-stroke' }}
+                    strokeDasharray="4"
+                  />
+                );
+              })()}
+
+              {pendingRectStart && (currentTool === 'rectangle' || currentTool === 'rotated_rect') && currentMouseImagePos && (
                 <rect
                   x={Math.min(pendingRectStart.x, currentMouseImagePos.x)}
                   y={Math.min(pendingRectStart.y, currentMouseImagePos.y)}
@@ -640,6 +1030,41 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
                 />
               )}
 
+              {pendingWandPoly.length > 0 && currentTool === 'magic_wand' && (
+                <polygon
+                  points={pendingWandPoly.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill={currentColor}
+                  fillOpacity={0.25}
+                  stroke={currentColor}
+                  style={{ strokeWidth: "2px", vectorEffect: 'non-scaling-stroke' }}
+                  strokeDasharray="4"
+                  strokeLinejoin="round"
+                />
+              )}
+
+              {pendingLine.length > 0 && currentTool === 'polyline' && (
+                <g>
+                   <polyline
+                     points={[...pendingLine, ...(currentMouseImagePos ? [currentMouseImagePos] : [])].map(p => `${p.x},${p.y}`).join(' ')}
+                     fill="none"
+                     stroke={currentColor}
+                     style={{ strokeWidth: "4px", vectorEffect: 'non-scaling-stroke' }}
+                     strokeLinejoin="round"
+                     strokeDasharray="4"
+                   />
+                   {pendingLine.map((p, i) => (
+                      <circle
+                        key={i}
+                        cx={p.x} cy={p.y}
+                        r="4px"
+                        fill={currentColor}
+                        stroke={currentColor}
+                        style={{ strokeWidth: "3px", vectorEffect: 'non-scaling-stroke' }}
+                      />
+                   ))}
+                </g>
+              )}
+
               {pendingPoly.length > 0 && currentTool === 'polygon' && (
                 <g>
                    <polyline
@@ -675,13 +1100,57 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
               {/* Interactive Handles */}
               {selectedIds.map((id) => {
                 const ann = annotations.find(a => a.id === id);
-                if (!ann || !ann.visible || ann.locked) return null;
+                if (!ann || !isAnnotationShown(ann, reviewThreshold) || ann.locked) return null;
                 if (selectedIds.length > 1) return null; 
 
                 const strokeColor = ann.color;
                 const handleRadius = "5px";
 
-                if (ann.type === 'rectangle') {
+                if (ann.type === 'rotated_rect') {
+                   const handle = getRotateHandle(ann.points, transform.scale);
+                   return (
+                     <g key={id}>
+                        <line
+                          x1={(ann.points[0].x + ann.points[1].x) / 2} y1={(ann.points[0].y + ann.points[1].y) / 2}
+                          x2={handle.x} y2={handle.y}
+                          stroke={strokeColor}
+                          style={{ strokeWidth: "2px", vectorEffect: 'non-scaling-stroke' }}
+                        />
+                        {[...ann.points, handle].map((p, i) => (
+                          <circle
+                            key={i}
+                            cx={p.x} cy={p.y}
+                            r={handleRadius}
+                            fill={i === ROTATE_HANDLE_INDEX ? strokeColor : 'white'}
+                            stroke={i === ROTATE_HANDLE_INDEX ? 'white' : strokeColor}
+                            style={{ strokeWidth: "2px", vectorEffect: 'non-scaling-stroke', cursor: i === ROTATE_HANDLE_INDEX ? 'grab' : undefined }}
+                          />
+                        ))}
+                     </g>
+                   );
+                } else if (ann.type === 'circle') {
+                   const c = ann.points[0];
+                   const r = getCircleRadius(ann.points);
+                   return (
+                     <g key={id}>
+                        {[
+                          { x: c.x + r, y: c.y },
+                          { x: c.x, y: c.y + r },
+                          { x: c.x - r, y: c.y },
+                          { x: c.x, y: c.y - r }
+                        ].map((p, i) => (
+                          <circle
+                            key={i}
+                            cx={p.x} cy={p.y}
+                            r={handleRadius}
+                            fill="white"
+                            stroke={strokeColor}
+                            style={{ strokeWidth: "2px", vectorEffect: 'non-scaling-stroke' }}
+                          />
+                        ))}
+                     </g>
+                   );
+                } else if (ann.type === 'rectangle' || ann.type === 'ellipse') {
                    const x = Math.min(ann.points[0].x, ann.points[1].x);
                    const y = Math.min(ann.points[0].y, ann.points[1].y);
                    const w = Math.abs(ann.points[0].x - ann.points[1].x);
@@ -706,7 +1175,7 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
                         ))}
                      </g>
                    );
-                } else if (ann.type === 'polygon') {
+                } else if (ann.type === 'polygon' || ann.type === 'polyline') {
                    return (
                      <g key={id}>
                         {ann.points.map((p, i) => (
@@ -794,19 +1263,43 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
             const ann = annotations.find(a => a.id === hoveredAnnotationId);
             if (!ann) return null;
             const area = getAnnotationArea(ann);
-            const totalImageArea = imageSize.width * imageSize.height;
-            const percentage = totalImageArea > 0 ? (area / totalImageArea * 100) : 0;
+            const percentage = getAnnotationAreaPercentage(ann, imageSize);
             return (
               <div className="flex flex-col gap-0.5">
                 <span className="font-bold text-blue-300">
                   {getLabelName(ann.label).split('(')[0]} {ann.locked && '(Locked)'}
                 </span>
+                {ann.proposed && (
+                  <span className="text-[10px] text-purple-300">
+                    AI 建议{ann.score !== undefined && ` · 置信度 ${Math.round(ann.score * 100)}%`}
+                  </span>
+                )}
+                {ann.needsReview && (
+                  <span className="text-[10px] text-amber-400">待确认类型 (Needs review)</span>
+                )}
                 <span className="text-[10px] text-gray-400 font-mono">
-                  {ann.type === 'rectangle' ? 'RECTANGLE' : 'POLYGON'} #{ann.id.slice(-4)}
-                </span>
-                <span className="text-[10px] text-gray-500 font-mono">
-                  Area: {Math.round(area)}px² ({percentage < 0.01 ? '<0.01' : percentage.toFixed(2)}%)
+                  {ann.type.toUpperCase()} #{ann.id.slice(-4)}
                 </span>
+                {ann.type === 'point' ? (
+                  <span className="text-[10px] text-gray-500 font-mono">
+                    X: {Math.round(ann.points[0].x)}, Y: {Math.round(ann.points[0].y)}
+                  </span>
+                ) : ann.type === 'rotated_rect' ? (() => {
+                  const box = getRotatedBox(ann.points);
+                  return (
+                    <span className="text-[10px] text-gray-500 font-mono">
+                      {Math.round(box.width)}×{Math.round(box.height)}px · {(box.angle * 180 / Math.PI).toFixed(1)}° · Area: {Math.round(area)}px²
+                    </span>
+                  );
+                })() : ann.type === 'polyline' ? (
+                  <span className="text-[10px] text-gray-500 font-mono">
+                    Length: {Math.round(getPolylineLength(ann.points))}px · Width: {getStrokeWidth(ann)}px
+                  </span>
+                ) : (
+                  <span className="text-[10px] text-gray-500 font-mono">
+                    Area: {Math.round(area)}px² ({percentage < 0.01 ? '<0.01' : percentage.toFixed(2)}%)
+                  </span>
+                )}
               </div>
             );
           })()}
@@ -827,11 +1320,51 @@ export const CanvasArea: React.FC<CanvasAreaProps> = ({
                [多边形绘制中] 点: {pendingPoly.length} - 点击起点闭合 / Esc 取消 / Backspace 撤销点
              </span>
            )}
+           {currentTool === 'polyline' && pendingLine.length > 0 && (
+             <span className="text-blue-400 font-bold">
+               [折线绘制中] 点: {pendingLine.length} 长度: {Math.round(getPolylineLength(pendingLine))}px - Enter/双击 完成 / Esc 取消 / Backspace 撤销点
+             </span>
+           )}
+           {currentTool === 'magic_wand' && (
+             <span className="flex items-center gap-2 text-blue-400" onMouseDown={(e) => e.stopPropagation()}>
+               <span className="font-bold">[魔棒]</span>
+               <span>容差</span>
+               <input
+                 type="range"
+                 min={0}
+                 max={128}
+                 value={wandTolerance}
+                 onChange={(e) => onWandToleranceChange(parseInt(e.target.value))}
+                 className="w-20 accent-blue-500"
+               />
+               <span className="w-6">{wandTolerance}</span>
+               <span className="font-bold">
+                 {pendingWandPoly.length > 0
+                   ? `顶点: ${pendingWandPoly.length} - Shift+点击 添加 / Alt+点击 减去 / Enter 确认 / Esc 取消`
+                   : '点击选取颜色相近的区域'}
+               </span>
+             </span>
+           )}
            {currentTool === 'rectangle' && pendingRectStart && (
              <span className="text-blue-400 font-bold">
                [矩形绘制中] 拖拽释放完成 / Esc 取消
              </span>
            )}
+           {currentTool === 'rotated_rect' && pendingRectStart && (
+             <span className="text-blue-400 font-bold">
+               [旋转矩形绘制中] 拖拽释放完成，选中后拖动旋转手柄调整角度 (Shift 按 15° 对齐)
+             </span>
+           )}
+           {currentTool === 'circle' && pendingRectStart && (
+             <span className="text-blue-400 font-bold">
+               [圆形绘制中] 从圆心拖拽释放完成 / Esc 取消
+             </span>
+           )}
+           {currentTool === 'ellipse' && pendingRectStart && (
+             <span className="text-blue-400 font-bold">
+               [椭圆绘制中] 拖拽释放完成 / Esc 取消
+             </span>
+           )}
         </div>
         
         <div className="flex gap-4">
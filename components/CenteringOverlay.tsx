@@ -0,0 +1,96 @@
+import React from 'react';
+import { BorderBox, CenteringMeasurement } from '../types';
+import { getCenteringRatios, formatRatio } from '../utils/centering';
+
+interface CenteringOverlayProps {
+  measurement: CenteringMeasurement | null;
+  pendingBox: BorderBox | null;
+  scale: number;
+  showHandles: boolean;
+}
+
+const OUTER_COLOR = '#22d3ee'; // Cyan
+const INNER_COLOR = '#e879f9'; // Fuchsia
+
+const BoxOutline: React.FC<{ box: BorderBox; color: string; dashed?: boolean }> = ({ box, color, dashed }) => (
+  <rect
+    x={box.left}
+    y={box.top}
+    width={box.right - box.left}
+    height={box.bottom - box.top}
+    fill="none"
+    stroke={color}
+    strokeDasharray={dashed ? '6 4' : 'none'}
+    style={{ strokeWidth: '2px', vectorEffect: 'non-scaling-stroke' }}
+  />
+);
+
+// Draws inside the image SVG layer, so coordinates are image pixels and text
+// is sized against the zoom to stay readable.
+export const CenteringOverlay: React.FC<CenteringOverlayProps> = ({ measurement, pendingBox, scale, showHandles }) => {
+  const ratios = getCenteringRatios(measurement);
+  const fontSize = 13 / scale;
+  const handleRadius = 4 / scale;
+
+  const renderLabel = (x: number, y: number, text: string, anchor: 'start' | 'middle' | 'end' = 'middle') => (
+    <text
+      x={x}
+      y={y}
+      fontSize={fontSize}
+      textAnchor={anchor}
+      dominantBaseline="middle"
+      fill="white"
+      stroke="black"
+      strokeWidth={3 / scale}
+      paintOrder="stroke"
+      fontFamily="monospace"
+    >
+      {text}
+    </text>
+  );
+
+  const renderHandles = (box: BorderBox, color: string) => {
+    const midX = (box.left + box.right) / 2;
+    const midY = (box.top + box.bottom) / 2;
+    return [
+      { x: box.left, y: midY }, { x: box.right, y: midY },
+      { x: midX, y: box.top }, { x: midX, y: box.bottom }
+    ].map((p, i) => (
+      <circle key={i} cx={p.x} cy={p.y} r={handleRadius} fill="white" stroke={color} style={{ strokeWidth: '2px', vectorEffect: 'non-scaling-stroke' }} />
+    ));
+  };
+
+  return (
+    <g className="pointer-events-none">
+      {measurement && <BoxOutline box={measurement.outer} color={OUTER_COLOR} />}
+      {measurement?.inner && <BoxOutline box={measurement.inner} color={INNER_COLOR} />}
+      {pendingBox && <BoxOutline box={pendingBox} color={measurement && !measurement.inner ? INNER_COLOR : OUTER_COLOR} dashed />}
+
+      {measurement && ratios && measurement.inner && (() => {
+        const { outer, inner } = measurement;
+        const midX = (inner.left + inner.right) / 2;
+        const midY = (inner.top + inner.bottom) / 2;
+        return (
+          <g>
+            {/* Border width markers */}
+            <line x1={outer.left} y1={midY} x2={inner.left} y2={midY} stroke={INNER_COLOR} strokeDasharray="3 2" style={{ strokeWidth: '1px', vectorEffect: 'non-scaling-stroke' }} />
+            <line x1={inner.right} y1={midY} x2={outer.right} y2={midY} stroke={INNER_COLOR} strokeDasharray="3 2" style={{ strokeWidth: '1px', vectorEffect: 'non-scaling-stroke' }} />
+            <line x1={midX} y1={outer.top} x2={midX} y2={inner.top} stroke={INNER_COLOR} strokeDasharray="3 2" style={{ strokeWidth: '1px', vectorEffect: 'non-scaling-stroke' }} />
+            <line x1={midX} y1={inner.bottom} x2={midX} y2={outer.bottom} stroke={INNER_COLOR} strokeDasharray="3 2" style={{ strokeWidth: '1px', vectorEffect: 'non-scaling-stroke' }} />
+
+            {renderLabel(inner.left + fontSize / 2, midY - fontSize, `${Math.round(ratios.borders.left)}px`, 'start')}
+            {renderLabel(inner.right - fontSize / 2, midY - fontSize, `${Math.round(ratios.borders.right)}px`, 'end')}
+            {renderLabel(midX, inner.top + fontSize, `${Math.round(ratios.borders.top)}px`)}
+            {renderLabel(midX, inner.bottom - fontSize, `${Math.round(ratios.borders.bottom)}px`)}
+
+            {renderLabel(midX, midY - fontSize * 0.8, `L/R ${formatRatio(ratios.leftRight)}`)}
+            {renderLabel(midX, midY + fontSize * 0.8, `T/B ${formatRatio(ratios.topBottom)}`)}
+          </g>
+        );
+      })()}
+
+      {showHandles && measurement && renderHandles(measurement.outer, OUTER_COLOR)}
+      {showHandles && measurement?.inner && renderHandles(measurement.inner, INNER_COLOR)}
+    </g>
+  );
+};
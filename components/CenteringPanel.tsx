@@ -0,0 +1,79 @@
+import React from 'react';
+import { Scan, Wand2, Trash2, Loader2 } from 'lucide-react';
+import { CenteringMeasurement } from '../types';
+import { getCenteringRatios, formatRatio } from '../utils/centering';
+
+interface CenteringPanelProps {
+  centering: CenteringMeasurement | null;
+  onStart: () => void;
+  onAutoDetect: () => void;
+  onClear: () => void;
+  isDetecting: boolean;
+}
+
+export const CenteringPanel: React.FC<CenteringPanelProps> = ({
+  centering,
+  onStart,
+  onAutoDetect,
+  onClear,
+  isDetecting
+}) => {
+  const ratios = getCenteringRatios(centering);
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-700 bg-gray-800/30">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+          <Scan size={12} /> 居中测量
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onAutoDetect}
+            disabled={isDetecting}
+            className="p-1 rounded text-gray-500 hover:text-cyan-300 hover:bg-gray-700 disabled:cursor-wait"
+            title="自动检测边框"
+          >
+            {isDetecting ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+          </button>
+          {centering && (
+            <button
+              onClick={onClear}
+              className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-gray-700"
+              title="清除测量"
+            >
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {ratios ? (
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div className="bg-gray-950/60 rounded p-2">
+            <div className="text-[10px] text-gray-500">左/右 (L/R)</div>
+            <div className="font-mono text-lg text-cyan-300">{formatRatio(ratios.leftRight)}</div>
+            <div className="text-[10px] text-gray-600 font-mono">
+              {Math.round(ratios.borders.left)} / {Math.round(ratios.borders.right)} px
+            </div>
+          </div>
+          <div className="bg-gray-950/60 rounded p-2">
+            <div className="text-[10px] text-gray-500">上/下 (T/B)</div>
+            <div className="font-mono text-lg text-fuchsia-300">{formatRatio(ratios.topBottom)}</div>
+            <div className="text-[10px] text-gray-600 font-mono">
+              {Math.round(ratios.borders.top)} / {Math.round(ratios.borders.bottom)} px
+            </div>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={onStart}
+          className="w-full text-left text-[11px] text-gray-500 hover:text-gray-300"
+        >
+          {centering
+            ? '请继续框选内侧印刷边框。'
+            : '使用居中测量工具先框选卡片外边缘，再框选内侧印刷边框；拖动边线可微调。'}
+        </button>
+      )}
+    </div>
+  );
+};
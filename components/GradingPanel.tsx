@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { Award, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { Annotation, GradingConfig, GradingScaleId, ImageSize } from '../types';
+import {
+  computeGrade,
+  parseGradingConfig,
+  DEFAULT_GRADING_CONFIG,
+  GRADE_CATEGORIES,
+  GRADE_CATEGORY_NAMES,
+  GRADING_SCALES
+} from '../utils/grading';
+
+interface GradingPanelProps {
+  annotations: Annotation[];
+  imageSize: ImageSize;
+  config: GradingConfig;
+  onUpdateConfig: (config: GradingConfig) => void;
+}
+
+const getGradeColor = (grade: number) => {
+  if (grade >= 9) return 'text-green-400';
+  if (grade >= 7) return 'text-lime-400';
+  if (grade >= 5) return 'text-amber-400';
+  return 'text-red-400';
+};
+
+export const GradingPanel: React.FC<GradingPanelProps> = ({
+  annotations,
+  imageSize,
+  config,
+  onUpdateConfig
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const result = useMemo(() => computeGrade(annotations, imageSize, config), [annotations, imageSize, config]);
+
+  const openEditor = () => {
+    setDraft(JSON.stringify(config, null, 2));
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const applyDraft = () => {
+    try {
+      onUpdateConfig(parseGradingConfig(draft));
+      setIsEditing(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-700 bg-gray-800/30">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+          <Award size={12} /> 评级估算
+        </h3>
+        <div className="flex items-center gap-1">
+          <select
+            value={config.scale}
+            onChange={(e) => onUpdateConfig({ ...config, scale: e.target.value as GradingScaleId })}
+            className="bg-gray-950 text-gray-300 text-[10px] py-0.5 px-1 rounded border border-gray-700 focus:border-blue-500 focus:outline-none"
+            title="评级标准"
+          >
+            {(Object.keys(GRADING_SCALES) as GradingScaleId[]).map(id => (
+              <option key={id} value={id}>{GRADING_SCALES[id].name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => isEditing ? setIsEditing(false) : openEditor()}
+            className={`p-1 rounded hover:bg-gray-700 ${isEditing ? 'text-blue-400' : 'text-gray-500 hover:text-white'}`}
+            title="编辑评分规则"
+          >
+            <SlidersHorizontal size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-baseline gap-2 mb-2">
+        <span className={`text-3xl font-bold font-mono ${getGradeColor(result.overall)}`}>
+          {result.overall}
+        </span>
+        <span className="text-xs text-gray-400">{result.overallName}</span>
+      </div>
+
+      <div className="space-y-1">
+        {GRADE_CATEGORIES.map(category => {
+          const sub = result.subgrades[category];
+          return (
+            <div key={category} className="flex items-center justify-between text-xs">
+              <span className="text-gray-400">{GRADE_CATEGORY_NAMES[category]}</span>
+              <span className="flex items-center gap-2">
+                <span className="text-[10px] text-gray-600" title="瑕疵数 / 扣分">
+                  {sub.defects} 处 · -{sub.penalty.toFixed(2)}
+                </span>
+                <span className={`font-mono font-semibold w-8 text-right ${getGradeColor(sub.grade)}`}>{sub.grade}</span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[10px] text-gray-600 mt-2">仅根据已接受的标注估算，结果供参考。</p>
+
+      {isEditing && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-48 bg-gray-950 text-gray-300 text-[10px] font-mono p-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none custom-scrollbar"
+          />
+          {error && <p className="text-[10px] text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={applyDraft}
+              className="flex-1 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs"
+            >
+              应用规则
+            </button>
+            <button
+              onClick={() => setDraft(JSON.stringify(DEFAULT_GRADING_CONFIG, null, 2))}
+              className="flex items-center gap-1 px-3 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs"
+              title="载入默认规则 (需点击应用)"
+            >
+              <RotateCcw size={12} /> 默认
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
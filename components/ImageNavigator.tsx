@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight, ImagePlus, FolderOpen, CheckCircle2, Circle, CircleDot, X, FolderX } from 'lucide-react';
+import { ProjectImage, ImageStatus, KeyMap } from '../types';
+import { IMAGE_STATUS_NAMES } from '../constants';
+import { formatShortcut } from '../utils/keyboard';
+
+interface ImageNavigatorProps {
+  images: ProjectImage[];
+  currentImageId: string | null;
+  onSelectImage: (id: string) => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onAddFiles: (files: FileList) => void;
+  onSetStatus: (id: string, status: ImageStatus) => void;
+  onRemoveImage: (id: string) => void;
+  onCloseProject: () => void;
+  keyMap: KeyMap;
+}
+
+const STATUS_STYLES: Record<ImageStatus, string> = {
+  unlabeled: 'text-gray-500',
+  in_progress: 'text-amber-400',
+  done: 'text-emerald-400'
+};
+
+const StatusIcon: React.FC<{ status: ImageStatus; size: number }> = ({ status, size }) => {
+  if (status === 'done') return <CheckCircle2 size={size} />;
+  if (status === 'in_progress') return <CircleDot size={size} />;
+  return <Circle size={size} />;
+};
+
+export const ImageNavigator: React.FC<ImageNavigatorProps> = ({
+  images,
+  currentImageId,
+  onSelectImage,
+  onPrev,
+  onNext,
+  onAddFiles,
+  onSetStatus,
+  onRemoveImage,
+  onCloseProject,
+  keyMap
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const activeThumbRef = useRef<HTMLButtonElement>(null);
+
+  const currentIndex = images.findIndex(img => img.id === currentImageId);
+  const current = images[currentIndex];
+  const doneCount = images.filter(img => img.status === 'done').length;
+
+  // Keep the active thumbnail in view when navigating with shortcuts
+  useEffect(() => {
+    activeThumbRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [currentImageId]);
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) onAddFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="h-28 flex-shrink-0 bg-gray-900 border-t border-gray-700 flex flex-col select-none z-40">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-gray-800 text-xs text-gray-400">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onPrev}
+            disabled={currentIndex <= 0}
+            title={`上一张 (${formatShortcut(keyMap.PREV_IMAGE)})`}
+            className="p-0.5 rounded hover:bg-gray-800 hover:text-white disabled:text-gray-700 disabled:hover:bg-transparent"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="font-mono tabular-nums">
+            {currentIndex + 1} / {images.length}
+          </span>
+          <button
+            onClick={onNext}
+            disabled={currentIndex >= images.length - 1}
+            title={`下一张 (${formatShortcut(keyMap.NEXT_IMAGE)})`}
+            className="p-0.5 rounded hover:bg-gray-800 hover:text-white disabled:text-gray-700 disabled:hover:bg-transparent"
+          >
+            <ChevronRight size={14} />
+          </button>
+          <span className="text-gray-600">已完成 {doneCount}/{images.length}</span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {current && (
+            <button
+              onClick={() => onSetStatus(current.id, current.status === 'done' ? 'in_progress' : 'done')}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-colors ${
+                current.status === 'done'
+                  ? 'border-emerald-700 bg-emerald-900/30 text-emerald-300'
+                  : 'border-gray-700 hover:bg-gray-800 hover:text-white'
+              }`}
+              title="切换完成状态"
+            >
+              <CheckCircle2 size={12} />
+              {current.status === 'done' ? '已完成' : '标记完成'}
+            </button>
+          )}
+          <input type="file" accept="image/*" multiple ref={fileInputRef} className="hidden" onChange={handleFilesChange} />
+          <input
+            type="file"
+            ref={folderInputRef}
+            className="hidden"
+            onChange={handleFilesChange}
+            {...{ webkitdirectory: '', directory: '' }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1 rounded hover:bg-gray-800 hover:text-white"
+            title="添加图片"
+          >
+            <ImagePlus size={14} />
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="p-1 rounded hover:bg-gray-800 hover:text-white"
+            title="添加文件夹"
+          >
+            <FolderOpen size={14} />
+          </button>
+          <button
+            onClick={onCloseProject}
+            className="p-1 rounded hover:bg-gray-800 hover:text-red-400"
+            title="关闭项目"
+          >
+            <FolderX size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center gap-2 px-3 overflow-x-auto custom-scrollbar">
+        {images.map((img, index) => {
+          const isActive = img.id === currentImageId;
+          return (
+            <div key={img.id} className="relative flex-shrink-0 group">
+              <button
+                ref={isActive ? activeThumbRef : undefined}
+                onClick={() => onSelectImage(img.id)}
+                title={`${img.fileName} - ${IMAGE_STATUS_NAMES[img.status]}`}
+                className={`relative block w-16 h-16 rounded overflow-hidden border-2 transition-colors ${
+                  isActive ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'
+                }`}
+              >
+                <img src={img.src} alt={img.fileName} loading="lazy" draggable={false} className="w-full h-full object-cover" />
+                <span className="absolute bottom-0 left-0 right-0 bg-black/60 text-[9px] text-white/80 px-1 truncate font-mono text-left">
+                  {index + 1}
+                </span>
+                <span className={`absolute top-0.5 right-0.5 bg-black/60 rounded-full ${STATUS_STYLES[img.status]}`}>
+                  <StatusIcon status={img.status} size={12} />
+                </span>
+              </button>
+              <button
+                onClick={() => onRemoveImage(img.id)}
+                className="absolute top-0.5 left-0.5 p-0.5 rounded-full bg-black/60 text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="从项目中移除"
+              >
+                <X size={10} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Magnet, Loader2 } from 'lucide-react';
+import { ToolPanel, ToolSlider, PreviewActions } from './ToolPanel';
+
+interface RefinePanelProps {
+  count: number; // Selected rectangles/polygons that can be refined
+  radius: number;
+  onRadiusChange: (value: number) => void;
+  hasPreview: boolean;
+  isRefining: boolean;
+  onPreview: () => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({
+  count,
+  radius,
+  onRadiusChange,
+  hasPreview,
+  isRefining,
+  onPreview,
+  onApply,
+  onCancel
+}) => {
+  if (count === 0) return null;
+
+  return (
+    <ToolPanel icon={Magnet} title="边缘吸附" count={count} hint="将选中的矩形/多边形收紧到附近最明显的图像边缘，预览为虚线。">
+      <ToolSlider label="搜索半径" value={radius} unit="px" min={2} max={64} step={1} onChange={onRadiusChange} />
+      <PreviewActions
+        hasPreview={hasPreview}
+        previewLabel="预览吸附结果"
+        previewIcon={isRefining ? <Loader2 size={12} className="animate-spin" /> : <Magnet size={12} />}
+        isBusy={isRefining}
+        onPreview={onPreview}
+        onApply={onApply}
+        onCancel={onCancel}
+      />
+    </ToolPanel>
+  );
+};
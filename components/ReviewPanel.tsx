@@ -0,0 +1,137 @@
+import React from 'react';
+import { Sparkles, Check, X, Pencil, MousePointer2, AlertTriangle } from 'lucide-react';
+import { Annotation } from '../types';
+import { getLabelName } from '../constants';
+import { isAboveReviewThreshold } from '../utils/annotation';
+
+interface ReviewPanelProps {
+  suggestions: Annotation[];
+  selectedIds: string[];
+  threshold: number;
+  onThresholdChange: (value: number) => void;
+  onAccept: (ids: string[]) => void;
+  onReject: (ids: string[]) => void;
+  onRelabel: (id: string, e: React.MouseEvent) => void;
+  onEdit: (id: string) => void;
+}
+
+const formatScore = (score?: number) => score === undefined ? '—' : `${Math.round(score * 100)}%`;
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  suggestions,
+  selectedIds,
+  threshold,
+  onThresholdChange,
+  onAccept,
+  onReject,
+  onRelabel,
+  onEdit
+}) => {
+  if (suggestions.length === 0) return null;
+
+  const shown = suggestions
+    .filter(s => isAboveReviewThreshold(s, threshold))
+    .sort((a, b) => (b.score ?? 1) - (a.score ?? 1));
+  const hidden = suggestions.filter(s => !isAboveReviewThreshold(s, threshold));
+
+  return (
+    <div className="px-4 py-3 border-b border-gray-700 bg-purple-950/20">
+      <h3 className="text-[10px] font-bold text-purple-400 uppercase tracking-wider flex items-center gap-2 mb-3">
+        <Sparkles size={12} /> AI 建议待审核 ({suggestions.length})
+      </h3>
+
+      {/* Confidence threshold */}
+      <div className="space-y-1 mb-3">
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>置信度阈值</span>
+          <span>{Math.round(threshold * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={threshold}
+          onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+          className="w-full h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-purple-500"
+        />
+        {hidden.length > 0 && (
+          <p className="text-[10px] text-gray-500">{hidden.length} 个低于阈值的建议已隐藏</p>
+        )}
+      </div>
+
+      {/* Bulk actions */}
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <button
+          onClick={() => onAccept(shown.map(s => s.id))}
+          disabled={shown.length === 0}
+          className="flex items-center justify-center gap-1 py-1.5 rounded bg-green-800/40 hover:bg-green-700/50 text-green-300 text-xs disabled:opacity-40 disabled:cursor-not-allowed"
+          title="接受所有达到阈值的建议"
+        >
+          <Check size={12} /> 接受全部 ({shown.length})
+        </button>
+        <button
+          onClick={() => onReject(hidden.length > 0 ? hidden.map(s => s.id) : suggestions.map(s => s.id))}
+          className="flex items-center justify-center gap-1 py-1.5 rounded bg-red-900/30 hover:bg-red-800/40 text-red-300 text-xs"
+          title={hidden.length > 0 ? '拒绝所有低于阈值的建议' : '拒绝全部建议'}
+        >
+          <X size={12} /> {hidden.length > 0 ? `拒绝低分 (${hidden.length})` : '拒绝全部'}
+        </button>
+      </div>
+
+      <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+        {shown.map(s => {
+          const isSelected = selectedIds.includes(s.id);
+          return (
+            <div
+              key={s.id}
+              onClick={() => onEdit(s.id)}
+              className={`group flex items-center gap-2 p-1.5 rounded border border-dashed cursor-pointer transition-colors ${
+                isSelected ? 'border-purple-500/70 bg-purple-900/20' : 'border-gray-700 hover:bg-gray-800'
+              }`}
+            >
+              <div className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: s.color }} />
+              <span className="text-xs text-gray-300 truncate flex-1">
+                {getLabelName(s.label).split('(')[0]}
+              </span>
+              {s.needsReview && (
+                <span title="AI 标签无法识别，请确认类型 (Unrecognized AI label)">
+                  <AlertTriangle size={12} className="text-amber-400" />
+                </span>
+              )}
+              <span className="text-[10px] font-mono text-purple-300 w-9 text-right">{formatScore(s.score)}</span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onAccept([s.id]); }}
+                className="p-1 rounded text-gray-500 hover:text-green-400 hover:bg-gray-700"
+                title="接受"
+              >
+                <Check size={12} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onRelabel(s.id, e); }}
+                className="p-1 rounded text-gray-500 hover:text-blue-400 hover:bg-gray-700"
+                title="修改类型"
+              >
+                <Pencil size={12} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onEdit(s.id); }}
+                className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-700"
+                title="在画布中编辑形状"
+              >
+                <MousePointer2 size={12} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onReject([s.id]); }}
+                className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-gray-700"
+                title="拒绝"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Keyboard, Download, Upload, RotateCcw } from 'lucide-react';
-import { KeyMap, ActionId, KeyBinding } from '../types';
-import { ACTION_NAMES } from '../constants';
+import { X, Keyboard, Download, Upload, RotateCcw, Sparkles } from 'lucide-react';
+import { KeyMap, ActionId, KeyBinding, DetectionSettings, DetectionProviderId, DetectionMode } from '../types';
+import { ACTION_NAMES, DETECTION_PROVIDER_NAMES, DETECTION_MODE_NAMES } from '../constants';
 import { formatShortcut } from '../utils/keyboard';
 
 interface SettingsModalProps {
@@ -10,6 +10,8 @@ interface SettingsModalProps {
   keyMap: KeyMap;
   onUpdateKeyMap: (newMap: KeyMap) => void;
   onResetDefaults: () => void;
+  detectionSettings: DetectionSettings;
+  onUpdateDetectionSettings: (settings: DetectionSettings) => void;
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -17,7 +19,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   onClose,
   keyMap,
   onUpdateKeyMap,
-  onResetDefaults
+  onResetDefaults,
+  detectionSettings,
+  onUpdateDetectionSettings
 }) => {
   const [editingAction, setEditingAction] = useState<ActionId | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -96,6 +100,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     reader.readAsText(file);
   };
 
+  const updateDetection = (patch: Partial<DetectionSettings>) => {
+    onUpdateDetectionSettings({ ...detectionSettings, ...patch });
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -143,6 +151,203 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               </div>
             ))}
           </div>
+
+          {/* AI Detection Provider */}
+          <h3 className="text-sm font-bold text-white flex items-center gap-2 mt-8 mb-4">
+            <Sparkles size={16} className="text-purple-400" />
+            AI 检测服务 (Detection Provider)
+          </h3>
+          <div className="space-y-3 p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
+            <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+              <span>检测来源</span>
+              <select
+                value={detectionSettings.provider}
+                onChange={(e) => updateDetection({ provider: e.target.value as DetectionProviderId })}
+                className="bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none min-w-[200px]"
+              >
+                {(Object.keys(DETECTION_PROVIDER_NAMES) as DetectionProviderId[]).map(id => (
+                  <option key={id} value={id}>{DETECTION_PROVIDER_NAMES[id]}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+              <span>检测模式</span>
+              <select
+                value={detectionSettings.mode}
+                onChange={(e) => updateDetection({ mode: e.target.value as DetectionMode })}
+                className="bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none min-w-[200px]"
+              >
+                {(Object.keys(DETECTION_MODE_NAMES) as DetectionMode[]).map(mode => (
+                  <option key={mode} value={mode}>{DETECTION_MODE_NAMES[mode]}</option>
+                ))}
+              </select>
+            </label>
+
+            {detectionSettings.mode === 'polygon' && (
+              <>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>轮廓顶点上限</span>
+                  <input
+                    type="number"
+                    min={3}
+                    max={200}
+                    value={detectionSettings.maxPolygonVertices}
+                    onChange={(e) => updateDetection({ maxPolygonVertices: Math.max(3, parseInt(e.target.value) || 3) })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                {detectionSettings.provider === 'onnx' && (
+                  <p className="text-[11px] text-amber-500/80">ONNX 检测模型只输出矩形框，多边形模式下仍生成矩形。</p>
+                )}
+              </>
+            )}
+
+            <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+              <span>分块检测 (高分辨率扫描)</span>
+              <input
+                type="checkbox"
+                checked={detectionSettings.tiled}
+                onChange={(e) => updateDetection({ tiled: e.target.checked })}
+                className="accent-blue-500"
+              />
+            </label>
+
+            {detectionSettings.tiled && (
+              <>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>分块边长 (像素)</span>
+                  <input
+                    type="number"
+                    min={256}
+                    step={128}
+                    value={detectionSettings.tileSize}
+                    onChange={(e) => updateDetection({ tileSize: Math.max(256, parseInt(e.target.value) || 1024) })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>分块重叠 (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={50}
+                    step={5}
+                    value={Math.round(detectionSettings.tileOverlap * 100)}
+                    onChange={(e) => updateDetection({ tileOverlap: Math.min(50, Math.max(0, parseInt(e.target.value) || 0)) / 100 })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <p className="text-[11px] text-gray-500">按原图分辨率切成重叠的小块逐块检测，接缝处的重复结果按标签合并。每块计一次请求。</p>
+              </>
+            )}
+
+            {detectionSettings.provider === 'gemini' && (
+              <p className="text-[11px] text-gray-500">使用环境变量 GEMINI_API_KEY 中配置的密钥。</p>
+            )}
+
+            {detectionSettings.provider === 'http' && (
+              <>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>服务地址</span>
+                  <input
+                    type="url"
+                    placeholder="http://localhost:8000/detect"
+                    value={detectionSettings.httpEndpoint}
+                    onChange={(e) => updateDetection({ httpEndpoint: e.target.value })}
+                    className="flex-1 max-w-sm bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>访问令牌 (可选)</span>
+                  <input
+                    type="password"
+                    value={detectionSettings.httpApiKey}
+                    onChange={(e) => updateDetection({ httpApiKey: e.target.value })}
+                    className="flex-1 max-w-sm bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <p className="text-[11px] text-gray-500">访问令牌只保存在当前标签页中，关闭后需重新输入。</p>
+              </>
+            )}
+
+            {detectionSettings.provider === 'onnx' && (
+              <>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>模型地址 (.onnx)</span>
+                  <input
+                    type="url"
+                    placeholder="/models/defects.onnx"
+                    value={detectionSettings.onnxModelUrl}
+                    onChange={(e) => updateDetection({ onnxModelUrl: e.target.value })}
+                    className="flex-1 max-w-sm bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>输入尺寸</span>
+                  <input
+                    type="number"
+                    min={32}
+                    step={32}
+                    value={detectionSettings.onnxInputSize}
+                    onChange={(e) => updateDetection({ onnxInputSize: parseInt(e.target.value) || 640 })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>置信度阈值</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={detectionSettings.onnxScoreThreshold}
+                    onChange={(e) => updateDetection({ onnxScoreThreshold: parseFloat(e.target.value) || 0 })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <p className="text-[11px] text-gray-500">支持 Ultralytics YOLO 导出的 ONNX 检测模型，类别顺序需与 YOLO 导出的 classes.txt 一致。</p>
+              </>
+            )}
+
+            {(detectionSettings.provider === 'gemini' || detectionSettings.provider === 'http') && (
+              <>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>上传图片最大边长 (0 = 原图)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={128}
+                    value={detectionSettings.maxImageDimension}
+                    onChange={(e) => updateDetection({ maxImageDimension: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>请求超时 (秒)</span>
+                  <input
+                    type="number"
+                    min={5}
+                    value={detectionSettings.requestTimeoutSec}
+                    onChange={(e) => updateDetection({ requestTimeoutSec: Math.max(5, parseInt(e.target.value) || 60) })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-gray-300">
+                  <span>失败重试次数</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    value={detectionSettings.maxRetries}
+                    onChange={(e) => updateDetection({ maxRetries: Math.min(10, Math.max(0, parseInt(e.target.value) || 0)) })}
+                    className="w-24 bg-gray-950 text-gray-200 text-xs py-1.5 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                  />
+                </label>
+                <p className="text-[11px] text-gray-500">限流、超时和服务端错误会自动重试，等待时间逐次加倍。</p>
+              </>
+            )}
+          </div>
         </div>
 
         {/* Footer */}
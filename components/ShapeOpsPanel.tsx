@@ -0,0 +1,46 @@
+import React from 'react';
+import { Shapes, SquaresUnite, SquaresSubtract, SquaresIntersect, Scissors } from 'lucide-react';
+import { ShapeOperation } from '../utils/polygonOps';
+import { ToolPanel } from './ToolPanel';
+
+interface ShapeOpsPanelProps {
+  count: number; // Selected unlocked shapes with an area
+  hasCuttingLine: boolean; // Exactly one polyline is selected as well
+  onOperation: (op: ShapeOperation) => void;
+}
+
+const OPERATIONS: { op: ShapeOperation; icon: React.ElementType; label: string; title: string }[] = [
+  { op: 'union', icon: SquaresUnite, label: '合并', title: '合并所有选中形状 (Union)' },
+  { op: 'subtract', icon: SquaresSubtract, label: '相减', title: '从第一个选中的形状中减去其余形状 (Subtract)' },
+  { op: 'intersect', icon: SquaresIntersect, label: '相交', title: '保留所有选中形状的公共部分 (Intersect)' },
+  { op: 'split', icon: Scissors, label: '切割', title: '沿选中的折线切开形状 (Split by line)' }
+];
+
+export const ShapeOpsPanel: React.FC<ShapeOpsPanelProps> = ({ count, hasCuttingLine, onOperation }) => {
+  if (count === 0 || (count < 2 && !hasCuttingLine)) return null;
+
+  const isEnabled = (op: ShapeOperation) => op === 'split' ? hasCuttingLine : count >= 2;
+
+  return (
+    <ToolPanel
+      icon={Shapes}
+      title="形状运算"
+      count={count}
+      hint="结果为多边形，沿用第一个选中形状的标签。切割时请用折线工具画一条完全穿过形状的线并一起选中。"
+    >
+      <div className="grid grid-cols-4 gap-1">
+        {OPERATIONS.map(({ op, icon: Icon, label, title }) => (
+          <button
+            key={op}
+            onClick={() => onOperation(op)}
+            disabled={!isEnabled(op)}
+            title={title}
+            className="flex flex-col items-center gap-1 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-300 text-[10px] disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-gray-700"
+          >
+            <Icon size={14} /> {label}
+          </button>
+        ))}
+      </div>
+    </ToolPanel>
+  );
+};
@@ -1,8 +1,17 @@
-import React from 'react';
-import { Eye, EyeOff, Trash2, Download, Settings, Crosshair, Pencil, Layers, FileText, Ruler, Lock, Unlock, Sun, Contrast, Droplet, Grid, AlignLeft, AlignCenter, AlignRight, AlignStartVertical, AlignCenterVertical, AlignEndVertical, StretchHorizontal, StretchVertical } from 'lucide-react';
-import { Annotation, ImageSize, ImageFilters, GridSettings } from '../types';
-import { getLabelName } from '../constants';
-import { getAnnotationArea } from '../utils/geometry';
+import React, { useRef, useState } from 'react';
+import { Eye, EyeOff, Trash2, Download, Upload, Settings, Crosshair, Pencil, Layers, FileText, Ruler, Lock, Unlock, Sun, Contrast, Droplet, Grid, AlignLeft, AlignCenter, AlignRight, AlignStartVertical, AlignCenterVertical, AlignEndVertical, StretchHorizontal, StretchVertical, AlertTriangle } from 'lucide-react';
+import { Annotation, ImageSize, ImageFilters, GridSettings, ExportFormat, ExportOptions, GradingConfig, CenteringMeasurement } from '../types';
+import { getLabelName, EXPORT_FORMAT_NAMES } from '../constants';
+import { getAnnotationAreaPercentage, getPolylineLength, getStrokeWidth, isSimplifiable, SimplifyOptions } from '../utils/geometry';
+import { getAcceptedAnnotations } from '../utils/annotation';
+import { ReviewPanel } from './ReviewPanel';
+import { GradingPanel } from './GradingPanel';
+import { CenteringPanel } from './CenteringPanel';
+import { RefinePanel } from './RefinePanel';
+import { ShapeOpsPanel } from './ShapeOpsPanel';
+import { SimplifyPanel } from './SimplifyPanel';
+import { ShapeOperation, isBooleanOperand, isCuttingLine } from '../utils/polygonOps';
+import { isRefinable } from '../utils/refine';
 
 interface SidebarProps {
   imageSize: ImageSize;
@@ -12,8 +21,10 @@ interface SidebarProps {
   onDelete: (ids: string[]) => void;
   onToggleVisible: (id: string) => void;
   onToggleLock: (id: string) => void;
+  onUpdateStrokeWidth: (id: string, strokeWidth: number, isNewEdit: boolean) => void;
   onEditLabel: (id: string, e: React.MouseEvent) => void;
-  onExport: () => void;
+  onExport: (format: ExportFormat, options: ExportOptions) => void;
+  onImport: (file: File) => void;
   fillOpacity: number;
   onFillOpacityChange: (val: number) => void;
   showCrosshairs: boolean;
@@ -26,6 +37,32 @@ interface SidebarProps {
   onUpdateGridSettings: (g: GridSettings) => void;
   onAlign: (type: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom') => void;
   onDistribute: (type: 'horizontal' | 'vertical') => void;
+  reviewThreshold: number;
+  onReviewThresholdChange: (value: number) => void;
+  onAcceptSuggestions: (ids: string[]) => void;
+  onRejectSuggestions: (ids: string[]) => void;
+  onEditSuggestion: (id: string) => void;
+  gradingConfig: GradingConfig;
+  onUpdateGradingConfig: (config: GradingConfig) => void;
+  centering: CenteringMeasurement | null;
+  onClearCentering: () => void;
+  onAutoCentering: () => void;
+  isDetectingCentering: boolean;
+  onStartCentering: () => void;
+  refineRadius: number;
+  onRefineRadiusChange: (value: number) => void;
+  hasRefinePreview: boolean;
+  isRefining: boolean;
+  onPreviewRefine: () => void;
+  onApplyRefine: () => void;
+  onCancelRefine: () => void;
+  onShapeOperation: (op: ShapeOperation) => void;
+  simplifyOptions: SimplifyOptions;
+  onSimplifyOptionsChange: (options: SimplifyOptions) => void;
+  simplifyPreview: Annotation[] | null;
+  onPreviewSimplify: () => void;
+  onApplySimplify: () => void;
+  onCancelSimplify: () => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
@@ -36,8 +73,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onDelete,
   onToggleVisible,
   onToggleLock,
+  onUpdateStrokeWidth,
   onEditLabel,
   onExport,
+  onImport,
   fillOpacity,
   onFillOpacityChange,
   showCrosshairs,
@@ -49,9 +88,53 @@ export const Sidebar: React.FC<SidebarProps> = ({
   gridSettings,
   onUpdateGridSettings,
   onAlign,
-  onDistribute
+  onDistribute,
+  reviewThreshold,
+  onReviewThresholdChange,
+  onAcceptSuggestions,
+  onRejectSuggestions,
+  onEditSuggestion,
+  gradingConfig,
+  onUpdateGradingConfig,
+  centering,
+  onClearCentering,
+  onAutoCentering,
+  isDetectingCentering,
+  onStartCentering,
+  refineRadius,
+  onRefineRadiusChange,
+  hasRefinePreview,
+  isRefining,
+  onPreviewRefine,
+  onApplyRefine,
+  onCancelRefine,
+  onShapeOperation,
+  simplifyOptions,
+  onSimplifyOptionsChange,
+  simplifyPreview,
+  onPreviewSimplify,
+  onApplySimplify,
+  onCancelSimplify
 }) => {
-  const totalImageArea = imageSize.width * imageSize.height;
+  const accepted = getAcceptedAnnotations(annotations);
+  const suggestions = annotations.filter(a => a.proposed);
+  const selected = annotations.filter(a => selectedIds.includes(a.id));
+  const refinable = selected.filter(isRefinable);
+  const operands = selected.filter(isBooleanOperand);
+  const simplifiable = selected.filter(isSimplifiable);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Set once the focused stroke width field has taken its undo snapshot
+  const strokeEditStartedRef = useRef(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('labelme');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({ applyFilters: true, includeLegend: true });
+  const isImageExport = exportFormat === 'overlay_png' || exportFormat === 'overlay_jpeg';
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Reset input so the same file can be picked again
+    e.target.value = '';
+  };
 
   return (
     <div className="w-80 bg-gray-900 border-l border-gray-700 flex flex-col h-full z-10 shadow-xl select-none">
@@ -61,7 +144,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
              <Layers size={18} className="text-blue-500"/>
              标注列表
            </h2>
-           <p className="text-xs text-gray-500">共 {annotations.length} 个瑕疵点</p>
+           <p className="text-xs text-gray-500">共 {accepted.length} 个瑕疵点</p>
         </div>
       </div>
       
@@ -105,6 +188,59 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
         )}
 
+        <RefinePanel
+          count={refinable.length}
+          radius={refineRadius}
+          onRadiusChange={onRefineRadiusChange}
+          hasPreview={hasRefinePreview}
+          isRefining={isRefining}
+          onPreview={onPreviewRefine}
+          onApply={onApplyRefine}
+          onCancel={onCancelRefine}
+        />
+
+        <ShapeOpsPanel
+          count={operands.length}
+          hasCuttingLine={selected.filter(isCuttingLine).length === 1}
+          onOperation={onShapeOperation}
+        />
+
+        <SimplifyPanel
+          targets={simplifiable}
+          preview={simplifyPreview}
+          options={simplifyOptions}
+          onOptionsChange={onSimplifyOptionsChange}
+          onPreview={onPreviewSimplify}
+          onApply={onApplySimplify}
+          onCancel={onCancelSimplify}
+        />
+
+        <GradingPanel
+          annotations={accepted}
+          imageSize={imageSize}
+          config={gradingConfig}
+          onUpdateConfig={onUpdateGradingConfig}
+        />
+
+        <CenteringPanel
+          centering={centering}
+          onStart={onStartCentering}
+          onAutoDetect={onAutoCentering}
+          onClear={onClearCentering}
+          isDetecting={isDetectingCentering}
+        />
+
+        <ReviewPanel
+          suggestions={suggestions}
+          selectedIds={selectedIds}
+          threshold={reviewThreshold}
+          onThresholdChange={onReviewThresholdChange}
+          onAccept={onAcceptSuggestions}
+          onReject={onRejectSuggestions}
+          onRelabel={onEditLabel}
+          onEdit={onEditSuggestion}
+        />
+
         {/* Display Settings */}
         <div className="px-4 py-3 border-b border-gray-700 bg-gray-800/30">
            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2 mb-3">
@@ -227,14 +363,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
         {/* Annotations List */}
         <div className="p-2 space-y-1">
-          {annotations.length === 0 ? (
+          {accepted.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-20 text-gray-600 text-sm space-y-2 mt-4">
               <p>暂无瑕疵标注</p>
             </div>
           ) : (
-            annotations.slice().reverse().map((ann) => {
-              const area = getAnnotationArea(ann);
-              const percentage = totalImageArea > 0 ? (area / totalImageArea * 100) : 0;
+            accepted.slice().reverse().map((ann) => {
+              const percentage = getAnnotationAreaPercentage(ann, imageSize);
               const isSelected = selectedIds.includes(ann.id);
 
               return (
@@ -298,6 +433,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
                         <span className={`text-sm font-medium truncate ${isSelected ? 'text-white' : 'text-gray-300'} ${ann.locked ? 'opacity-70' : ''}`}>
                           {getLabelName(ann.label).split('(')[0]}
                         </span>
+                        {ann.needsReview && (
+                          <span title="AI 标签无法识别，请确认类型 (Unrecognized AI label)">
+                            <AlertTriangle size={12} className="text-amber-400 flex-shrink-0" />
+                          </span>
+                        )}
                         {!ann.locked && (
                           <button 
                             onClick={(e) => {
@@ -315,10 +455,37 @@ export const Sidebar: React.FC<SidebarProps> = ({
                          <span className="text-[10px] text-gray-600 truncate font-mono">
                            #{ann.id.slice(-4)}
                          </span>
-                         <span className="text-[10px] text-gray-500 flex items-center gap-0.5" title="面积占比">
-                            <Ruler size={10} />
-                            {percentage < 0.01 ? '<0.01%' : `${percentage.toFixed(2)}%`}
-                         </span>
+                         {ann.type === 'polyline' ? (
+                           <span className="text-[10px] text-gray-500 flex items-center gap-0.5" title="长度">
+                              <Ruler size={10} />
+                              {Math.round(getPolylineLength(ann.points))}px
+                           </span>
+                         ) : (
+                           <span className="text-[10px] text-gray-500 flex items-center gap-0.5" title="面积占比">
+                              <Ruler size={10} />
+                              {percentage < 0.01 ? '<0.01%' : `${percentage.toFixed(2)}%`}
+                           </span>
+                         )}
+                         {ann.type === 'polyline' && isSelected && !ann.locked && (
+                           <label className="text-[10px] text-gray-500 flex items-center gap-1" title="线宽 (用于掩码和面积)" onClick={(e) => e.stopPropagation()}>
+                             宽
+                             <input
+                               type="number"
+                               min={1}
+                               step={1}
+                               value={getStrokeWidth(ann)}
+                               onFocus={() => { strokeEditStartedRef.current = false; }}
+                               onChange={(e) => {
+                                 const width = parseFloat(e.target.value);
+                                 if (!(width > 0)) return;
+                                 onUpdateStrokeWidth(ann.id, width, !strokeEditStartedRef.current);
+                                 strokeEditStartedRef.current = true;
+                               }}
+                               onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                               className="w-12 bg-gray-950 text-gray-300 text-[10px] px-1 rounded border border-gray-700 focus:border-blue-500 focus:outline-none font-mono"
+                             />
+                           </label>
+                         )}
                       </div>
                     </div>
                   </div>
@@ -348,8 +515,54 @@ export const Sidebar: React.FC<SidebarProps> = ({
       </div>
 
       <div className="p-4 border-t border-gray-700 space-y-2 bg-gray-900">
+        <input
+          type="file"
+          accept=".json,.txt,.xml,application/json,text/plain,application/xml"
+          ref={importInputRef}
+          className="hidden"
+          onChange={handleImportChange}
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="w-full flex items-center justify-center space-x-2 bg-gray-800 hover:bg-gray-700 text-gray-200 py-2.5 px-4 rounded-lg transition-all text-sm font-medium border border-gray-700 hover:border-gray-600 shadow-sm"
+        >
+          <Upload size={16} />
+          <span>导入标注 (LabelMe / COCO / YOLO / VOC / DOTA)</span>
+        </button>
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          className="w-full bg-gray-950 text-gray-300 text-xs py-2 px-2 rounded border border-gray-700 focus:border-blue-500 focus:outline-none"
+          title="导出格式"
+        >
+          {(Object.keys(EXPORT_FORMAT_NAMES) as ExportFormat[]).map(format => (
+            <option key={format} value={format}>{EXPORT_FORMAT_NAMES[format]}</option>
+          ))}
+        </select>
+        {isImageExport && (
+          <div className="flex items-center justify-between text-xs text-gray-400 px-1">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={exportOptions.applyFilters}
+                onChange={(e) => setExportOptions({ ...exportOptions, applyFilters: e.target.checked })}
+                className="accent-blue-500"
+              />
+              应用图像增强
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={exportOptions.includeLegend}
+                onChange={(e) => setExportOptions({ ...exportOptions, includeLegend: e.target.checked })}
+                className="accent-blue-500"
+              />
+              包含图例
+            </label>
+          </div>
+        )}
         <button
-          onClick={onExport}
+          onClick={() => onExport(exportFormat, exportOptions)}
           className="w-full flex items-center justify-center space-x-2 bg-gray-800 hover:bg-gray-700 text-gray-200 py-2.5 px-4 rounded-lg transition-all text-sm font-medium border border-gray-700 hover:border-gray-600 shadow-sm"
         >
           <Download size={16} />
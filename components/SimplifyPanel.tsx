@@ -0,0 +1,82 @@
+import React from 'react';
+import { Waypoints, Eye } from 'lucide-react';
+import { Annotation } from '../types';
+import { SimplifyOptions, countAnnotationVertices, getAnnotationArea } from '../utils/geometry';
+import { ToolPanel, ToolSlider, PreviewActions } from './ToolPanel';
+
+interface SimplifyPanelProps {
+  targets: Annotation[]; // Selected polygons that can be simplified
+  preview: Annotation[] | null;
+  options: SimplifyOptions;
+  onOptionsChange: (options: SimplifyOptions) => void;
+  onPreview: () => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const sum = (annotations: Annotation[], value: (a: Annotation) => number) => {
+  return annotations.reduce((total, a) => total + value(a), 0);
+};
+
+export const SimplifyPanel: React.FC<SimplifyPanelProps> = ({
+  targets,
+  preview,
+  options,
+  onOptionsChange,
+  onPreview,
+  onApply,
+  onCancel
+}) => {
+  if (targets.length === 0) return null;
+
+  const verticesBefore = sum(targets, countAnnotationVertices);
+  const areaBefore = sum(targets, getAnnotationArea);
+  const verticesAfter = preview ? sum(preview, countAnnotationVertices) : null;
+  const areaChange = preview && areaBefore > 0 ? (sum(preview, getAnnotationArea) - areaBefore) / areaBefore * 100 : null;
+
+  return (
+    <ToolPanel
+      icon={Waypoints}
+      title="简化 / 平滑"
+      count={targets.length}
+      hint="先按容差删除多余顶点，再按次数圆滑拐角（每次顶点数翻倍）。预览为虚线，拖动滑块实时更新。"
+    >
+      <ToolSlider
+        label="简化容差"
+        value={options.tolerance}
+        unit="px"
+        min={0}
+        max={20}
+        step={0.5}
+        onChange={(tolerance) => onOptionsChange({ ...options, tolerance })}
+        className="mb-2"
+      />
+      <ToolSlider
+        label="平滑次数"
+        value={options.smoothing}
+        min={0}
+        max={3}
+        step={1}
+        onChange={(smoothing) => onOptionsChange({ ...options, smoothing })}
+      />
+
+      <div className="flex justify-between text-[11px] font-mono text-gray-400 mb-3">
+        <span>顶点 {verticesBefore}{verticesAfter !== null && ` → ${verticesAfter}`}</span>
+        {areaChange !== null && (
+          <span className={Math.abs(areaChange) > 5 ? 'text-amber-400' : ''}>
+            面积 {areaChange >= 0 ? '+' : ''}{areaChange.toFixed(1)}%
+          </span>
+        )}
+      </div>
+
+      <PreviewActions
+        hasPreview={preview !== null}
+        previewLabel="预览简化结果"
+        previewIcon={<Eye size={12} />}
+        onPreview={onPreview}
+        onApply={onApply}
+        onCancel={onCancel}
+      />
+    </ToolPanel>
+  );
+};
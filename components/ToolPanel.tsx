@@ -0,0 +1,96 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+
+// Shell shared by the sidebar panels that act on the current selection
+// (edge snapping, shape operations, simplification)
+
+interface ToolPanelProps {
+  icon: React.ElementType;
+  title: string;
+  count: number;
+  hint: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export const ToolPanel: React.FC<ToolPanelProps> = ({ icon: Icon, title, count, hint, children }) => (
+  <div className="px-4 py-3 border-b border-gray-700 bg-gray-800/30">
+    <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2 mb-3">
+      <Icon size={12} /> {title} ({count})
+    </h3>
+    {children}
+    <p className="text-[10px] text-gray-600 mt-2">{hint}</p>
+  </div>
+);
+
+interface ToolSliderProps {
+  label: string;
+  value: number;
+  unit?: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  className?: string; // Spacing below the row
+}
+
+export const ToolSlider: React.FC<ToolSliderProps> = ({ label, value, unit = '', min, max, step, onChange, className = 'mb-3' }) => (
+  <div className={`space-y-1 ${className}`}>
+    <div className="flex justify-between text-xs text-gray-400">
+      <span>{label}</span>
+      <span>{value}{unit}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+    />
+  </div>
+);
+
+interface PreviewActionsProps {
+  hasPreview: boolean;
+  previewLabel: string;
+  previewIcon: React.ReactNode;
+  isBusy?: boolean;
+  onPreview: () => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+// A preview button that turns into apply/cancel once a preview is shown
+export const PreviewActions: React.FC<PreviewActionsProps> = ({
+  hasPreview,
+  previewLabel,
+  previewIcon,
+  isBusy = false,
+  onPreview,
+  onApply,
+  onCancel
+}) => hasPreview ? (
+  <div className="flex gap-2">
+    <button
+      onClick={onApply}
+      className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs"
+    >
+      <Check size={12} /> 应用
+    </button>
+    <button
+      onClick={onCancel}
+      className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs"
+    >
+      <X size={12} /> 取消
+    </button>
+  </div>
+) : (
+  <button
+    onClick={onPreview}
+    disabled={isBusy}
+    className="w-full flex items-center justify-center gap-1 py-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs disabled:cursor-wait"
+  >
+    {previewIcon} {previewLabel}
+  </button>
+);
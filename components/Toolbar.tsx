@@ -1,6 +1,7 @@
 import React from 'react';
-import { MousePointer, Hand, Square, PenTool, ZoomIn, ZoomOut, RotateCcw, Undo2, Redo2, Settings } from 'lucide-react';
-import { ToolType, KeyMap } from '../types';
+import { MousePointer, Hand, Square, PenTool, ZoomIn, ZoomOut, RotateCcw, Undo2, Redo2, Settings, Sparkles, Loader2, Scan, Wand2, Spline, CircleDot, Circle, Egg, RotateCwSquare } from 'lucide-react';
+import { ToolType, KeyMap, DetectionMode } from '../types';
+import { DETECTION_MODE_NAMES } from '../constants';
 import { formatShortcut } from '../utils/keyboard';
 
 interface ToolbarProps {
@@ -20,6 +21,10 @@ interface ToolbarProps {
   redoAction?: string | null;
   keyMap: KeyMap;
   onOpenSettings: () => void;
+  onAutoDetect: () => void;
+  isDetecting: boolean;
+  detectionMode: DetectionMode;
+  onToggleDetectionMode: () => void;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
@@ -38,13 +43,24 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   undoAction,
   redoAction,
   keyMap,
-  onOpenSettings
+  onOpenSettings,
+  onAutoDetect,
+  isDetecting,
+  detectionMode,
+  onToggleDetectionMode
 }) => {
   const tools = [
     { id: 'select', icon: MousePointer, label: `选择 (${formatShortcut(keyMap.TOOL_SELECT)})` },
     { id: 'pan', icon: Hand, label: `拖拽移动 (${formatShortcut(keyMap.TOOL_PAN)})` },
     { id: 'rectangle', icon: Square, label: `矩形工具 (${formatShortcut(keyMap.TOOL_RECTANGLE)})` },
+    { id: 'rotated_rect', icon: RotateCwSquare, label: `旋转矩形工具 (${formatShortcut(keyMap.TOOL_ROTATED_RECT)})` },
     { id: 'polygon', icon: PenTool, label: `多边形工具 (${formatShortcut(keyMap.TOOL_POLYGON)})` },
+    { id: 'polyline', icon: Spline, label: `折线工具 (${formatShortcut(keyMap.TOOL_POLYLINE)})` },
+    { id: 'point', icon: CircleDot, label: `点工具 (${formatShortcut(keyMap.TOOL_POINT)})` },
+    { id: 'circle', icon: Circle, label: `圆形工具 (${formatShortcut(keyMap.TOOL_CIRCLE)})` },
+    { id: 'ellipse', icon: Egg, label: `椭圆工具 (${formatShortcut(keyMap.TOOL_ELLIPSE)})` },
+    { id: 'magic_wand', icon: Wand2, label: `魔棒工具 (${formatShortcut(keyMap.TOOL_MAGIC_WAND)})` },
+    { id: 'centering', icon: Scan, label: `居中测量 (${formatShortcut(keyMap.TOOL_CENTERING)})` },
   ] as const;
 
   const renderBadge = (count: number) => {
@@ -80,6 +96,31 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         ))}
       </div>
 
+      <div className="h-px w-8 bg-gray-700 my-2" />
+
+      {/* AI Pre-annotation */}
+      <div className="w-full px-2">
+        <button
+          onClick={onAutoDetect}
+          disabled={isDetecting}
+          title={isDetecting ? 'AI 检测中...' : 'AI 自动检测瑕疵'}
+          className={`w-full aspect-square flex items-center justify-center rounded-lg transition-colors ${
+            isDetecting
+              ? 'text-purple-400 cursor-wait'
+              : 'text-purple-400 hover:bg-gray-800 hover:text-purple-300'
+          }`}
+        >
+          {isDetecting ? <Loader2 size={20} className="animate-spin" /> : <Sparkles size={20} />}
+        </button>
+        <button
+          onClick={onToggleDetectionMode}
+          title={`AI 检测模式: ${DETECTION_MODE_NAMES[detectionMode]}`}
+          className="w-full mt-1 py-1 flex items-center justify-center rounded text-gray-500 hover:bg-gray-800 hover:text-purple-300 transition-colors"
+        >
+          {detectionMode === 'polygon' ? <PenTool size={12} /> : <Square size={12} />}
+        </button>
+      </div>
+
       <div className="h-px w-8 bg-gray-700 my-2" />
       
       {/* Undo/Redo */}
@@ -1,4 +1,4 @@
-import { KeyMap } from './types';
+import { KeyMap, ExportFormat, ImageStatus, DetectionProviderId, DetectionMode, DetectionSettings } from './types';
 
 export const COLORS = [
   '#ef4444', // red
@@ -15,6 +15,9 @@ export const COLORS = [
 
 export const DEFAULT_LABEL = 'defect';
 
+// Width (image pixels) of a polyline without an explicit stroke width
+export const DEFAULT_STROKE_WIDTH = 3;
+
 export const GEMINI_MODEL = 'gemini-2.5-flash';
 
 export const LABEL_MAP: Record<string, string> = {
@@ -63,26 +66,76 @@ export const LABEL_MAP: Record<string, string> = {
   'defect': '通用缺陷 (Defect)',
 };
 
+// Visual definitions sent to the AI model so it can tell the classes apart
+export const LABEL_DESCRIPTIONS: Record<string, string> = {
+  'wear': 'General wear where the exact location is unclear',
+  'edge_wear': 'Roughened or frayed card edge along a side',
+  'corner_wear': 'Worn, rounded or frayed corner tip',
+  'whitening': 'White specks or lines where the colored border ink is rubbed off at edges or corners',
+  'scuff': 'Dull, hazy abrasion patch on the surface gloss',
+  'chipping': 'Small flakes of ink or card stock missing, typically on dark borders',
+  'wear_and_impact': 'Wear combined with a knock or crushed area',
+  'soft_corner': 'Corner that has lost its sharp point and is slightly rounded or bent',
+  'scratch': 'Thin straight or curved line scratched into the surface',
+  'stain': 'Discolored mark from liquid or residue',
+  'surface_wear': 'Widespread loss of gloss or texture across the surface',
+  'print_line': 'Straight factory printing line running across the card',
+  'refractor_line': 'Line visible in the holographic/refractor foil layer',
+  'dimple': 'Small shallow circular depression in the surface',
+  'pit': 'Tiny deep hole or crater in the surface',
+  'spot': 'Small isolated dot of different color (print spot or fish eye)',
+  'dirt': 'Loose dirt, dust or grime on the surface',
+  'discoloration': 'Yellowing, fading or uneven tone over an area',
+  'bubble': 'Raised blister or air bubble under the surface layer',
+  'foreign_matter': 'Hair, fiber or other object stuck on or in the card',
+  'silvering': 'Silver or metallic sheen from oxidized foil, usually on edges',
+  'wax_stain': 'Waxy translucent residue from pack wax',
+  'wear_and_stain': 'Wear combined with a stain',
+  'crease': 'Sharp fold line in the card stock, often reflecting light',
+  'bend': 'Card warped or curved without a sharp fold',
+  'dent': 'Localized depression pushed into the card',
+  'impression': 'Embossed mark pressed into the card, e.g. from writing on top of it',
+  'crack': 'Split or cracked surface layer or foil',
+  'hole': 'Hole punched or worn through the card',
+  'tear': 'Ripped paper, partial or complete',
+  'water_damage': 'Rippled, swollen or stained area from moisture',
+  'deformation': 'Card shape distorted overall',
+  'corrosion': 'Corroded or rusted foil or metallic areas',
+  'impact': 'Crushed or dinged spot from a knock',
+  'damage': 'Severe damage not covered by another class',
+  'defect': 'Any defect that fits none of the other classes',
+};
+
 // Define Groups for the UI
+// `id` is stable and used by the grading rules; `name` is for display
 export const LABEL_GROUPS = [
   {
+    id: 'edges_corners',
     name: '边角/边缘问题 (Edges & Corners)',
     items: ['corner_wear', 'edge_wear', 'whitening', 'soft_corner', 'chipping', 'wear', 'scuff', 'wear_and_impact']
   },
   {
+    id: 'surface',
     name: '表面瑕疵 (Surface)',
     items: ['scratch', 'surface_wear', 'stain', 'print_line', 'refractor_line', 'dimple', 'pit', 'spot', 'dirt', 'wax_stain', 'discoloration', 'bubble', 'silvering', 'foreign_matter']
   },
   {
+    id: 'structural',
     name: '结构/严重损伤 (Structural)',
     items: ['crease', 'bend', 'dent', 'impression', 'crack', 'tear', 'hole', 'water_damage', 'deformation', 'impact', 'corrosion', 'damage']
   },
   {
+    id: 'other',
     name: '其他 (Other)',
     items: ['defect']
   }
 ];
 
+// Flat label order used wherever a label needs a stable numeric index
+// (COCO category ids, YOLO class ids). Reordering LABEL_GROUPS renumbers
+// previously exported datasets.
+export const getOrderedLabelKeys = (): string[] => LABEL_GROUPS.flatMap(group => group.items);
+
 // Deterministic colors for specific labels
 export const LABEL_COLORS: Record<string, string> = {
   // Red/Orange/Yellow for Surface/Wear
@@ -124,6 +177,14 @@ export const getLabelName = (key: string): string => {
   return LABEL_MAP[key] || key;
 }
 
+export const getLabelGroupName = (key: string): string | null => {
+  return LABEL_GROUPS.find(group => group.items.includes(key))?.name ?? null;
+}
+
+export const getLabelGroupId = (key: string): string | null => {
+  return LABEL_GROUPS.find(group => group.items.includes(key))?.id ?? null;
+}
+
 export const DEFAULT_KEY_MAP: KeyMap = {
   TOOL_SELECT: { key: 'v' },
   TOOL_PAN: { key: 'h' }, // Note: Spacebar is handled specially for temporary pan
@@ -140,7 +201,17 @@ export const DEFAULT_KEY_MAP: KeyMap = {
   NUDGE_LEFT: { key: 'ArrowLeft' },
   NUDGE_RIGHT: { key: 'ArrowRight' },
   NUDGE_UP: { key: 'ArrowUp' },
-  NUDGE_DOWN: { key: 'ArrowDown' }
+  NUDGE_DOWN: { key: 'ArrowDown' },
+  NEXT_IMAGE: { key: 'd' },
+  PREV_IMAGE: { key: 'a' },
+  TOOL_CENTERING: { key: 'c' },
+  TOOL_MAGIC_WAND: { key: 'w' },
+  TOOL_POLYLINE: { key: 'l' },
+  TOOL_POINT: { key: 'k' },
+  TOOL_CIRCLE: { key: 'o' },
+  TOOL_ELLIPSE: { key: 'e' },
+  TOOL_ROTATED_RECT: { key: 'b' },
+  CONFIRM: { key: 'Enter' }
 };
 
 export const ACTION_NAMES: Record<string, string> = {
@@ -159,5 +230,65 @@ export const ACTION_NAMES: Record<string, string> = {
   NUDGE_LEFT: '向左微调',
   NUDGE_RIGHT: '向右微调',
   NUDGE_UP: '向上微调',
-  NUDGE_DOWN: '向下微调'
+  NUDGE_DOWN: '向下微调',
+  NEXT_IMAGE: '下一张图片',
+  PREV_IMAGE: '上一张图片',
+  TOOL_CENTERING: '居中测量工具',
+  TOOL_MAGIC_WAND: '魔棒工具',
+  TOOL_POLYLINE: '折线工具',
+  TOOL_POINT: '点工具',
+  TOOL_CIRCLE: '圆形工具',
+  TOOL_ELLIPSE: '椭圆工具',
+  TOOL_ROTATED_RECT: '旋转矩形工具',
+  CONFIRM: '确认选区'
+};
+
+export const DETECTION_PROVIDER_NAMES: Record<DetectionProviderId, string> = {
+  gemini: 'Google Gemini (云端)',
+  http: '本地模型服务 (HTTP)',
+  onnx: '浏览器内模型 (ONNX)',
+  mock: '模拟数据 (Mock, 离线测试)'
+};
+
+export const DETECTION_MODE_NAMES: Record<DetectionMode, string> = {
+  box: '矩形框 (Bounding Box)',
+  polygon: '多边形轮廓 (Polygon)'
+};
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  provider: 'gemini',
+  mode: 'box',
+  maxPolygonVertices: 24,
+  maxImageDimension: 1536,
+  requestTimeoutSec: 60,
+  maxRetries: 3,
+  tiled: false,
+  tileSize: 1024,
+  tileOverlap: 0.2,
+  httpEndpoint: '',
+  httpApiKey: '',
+  onnxModelUrl: '',
+  onnxInputSize: 640,
+  onnxScoreThreshold: 0.25
+};
+
+export const IMAGE_STATUS_NAMES: Record<ImageStatus, string> = {
+  unlabeled: '未标注',
+  in_progress: '标注中',
+  done: '已完成'
+};
+
+export const EXPORT_FORMAT_NAMES: Record<ExportFormat, string> = {
+  labelme: 'LabelMe JSON',
+  coco: 'COCO JSON',
+  yolo_detection: 'YOLO 检测 (Detection)',
+  yolo_segmentation: 'YOLO 分割 (Segmentation)',
+  yolo_obb: 'YOLO 旋转框 (OBB)',
+  dota: 'DOTA 旋转框 (DOTA)',
+  voc: 'Pascal VOC XML',
+  overlay_png: '标注效果图 PNG (Report Image)',
+  overlay_jpeg: '标注效果图 JPEG (Report Image)',
+  masks: '语义/实例掩码 PNG (Masks)',
+  csv: '瑕疵统计表 CSV',
+  excel: '瑕疵统计表 Excel'
 };
\ No newline at end of file
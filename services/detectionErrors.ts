@@ -0,0 +1,123 @@
+// Failures of a detection request, classified so the editor can tell the user
+// what went wrong and the retry loop knows what is worth another attempt.
+
+export type DetectionErrorKind =
+  | 'missing_api_key'
+  | 'not_configured'
+  | 'rate_limited'
+  | 'server'
+  | 'request'
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'invalid_response';
+
+const ERROR_MESSAGES: Record<DetectionErrorKind, string> = {
+  missing_api_key: '未配置 API 密钥 (API key is missing)',
+  not_configured: '检测服务未配置 (Detection provider is not configured)',
+  rate_limited: '请求过于频繁，已达速率限制 (Rate limited)',
+  server: '检测服务暂时不可用 (Detection service error)',
+  request: '请求被拒绝 (Request rejected)',
+  network: '网络连接失败 (Network error)',
+  timeout: '请求超时 (Request timed out)',
+  aborted: '已取消 (Cancelled)',
+  invalid_response: '检测结果格式无效 (Invalid response)'
+};
+
+const RETRYABLE: DetectionErrorKind[] = ['rate_limited', 'server', 'network', 'timeout'];
+
+export class DetectionError extends Error {
+  readonly kind: DetectionErrorKind;
+  readonly status?: number;
+
+  constructor(kind: DetectionErrorKind, detail?: string, status?: number) {
+    super(detail ? `${ERROR_MESSAGES[kind]}: ${detail}` : ERROR_MESSAGES[kind]);
+    this.name = 'DetectionError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export const isDetectionError = (error: unknown): error is DetectionError => error instanceof DetectionError;
+
+// HTTP status -> error kind, shared by the Gemini SDK errors and plain fetch
+export const getErrorKindForStatus = (status: number): DetectionErrorKind => {
+  if (status === 429) return 'rate_limited';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'server';
+  return 'request';
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DetectionError('aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DetectionError('aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Exponential backoff with jitter; only retryable DetectionErrors are retried
+export const withRetry = async <T>(
+  attempt: (index: number) => Promise<T>,
+  { retries, baseDelayMs = 1000, maxDelayMs = 16000, signal }: RetryOptions
+): Promise<T> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(i);
+    } catch (error) {
+      if (!isDetectionError(error) || !error.retryable || i >= retries || signal?.aborted) throw error;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** i) * (0.75 + Math.random() * 0.5);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// Runs `work` with a signal that fires on the caller's signal or after
+// `timeoutMs`, and reports which of the two it was.
+export const withTimeout = async <T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal?.aborted) throw new DetectionError('aborted');
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs > 0 ? setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs) : null;
+
+  try {
+    return await work(controller.signal);
+  } catch (error) {
+    if (signal?.aborted) throw new DetectionError('aborted');
+    if (timedOut) throw new DetectionError('timeout', `${Math.round(timeoutMs / 1000)}s`);
+    throw error;
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
@@ -0,0 +1,224 @@
+import { DetectedObject, DetectionProviderId, DetectionSettings, ImageSize, Point } from '../types';
+import { detectObjects } from './geminiService';
+import { detectWithOnnx } from './onnxDetector';
+import { DetectionError, getErrorKindForStatus, withRetry, withTimeout } from './detectionErrors';
+import { parseDataUrl, downscaleDataUrl, loadImageElement, cropImageToDataUrl } from '../utils/image';
+import { computeTiles, mapTileDetection, getTileMergeMetric, ImageTile } from '../utils/tiling';
+import { nonMaxSuppression } from '../utils/detection';
+
+// Every detection backend takes the image as a data URL and returns objects
+// in normalized (0-1) coordinates; converting them into annotations is the
+// editor's job (utils/detection.ts).
+
+export interface DetectionRequest {
+  imageDataUrl: string;
+  imageSize: ImageSize;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface DetectionProvider {
+  id: DetectionProviderId;
+  detect: (request: DetectionRequest) => Promise<DetectedObject[]>;
+}
+
+const createGeminiProvider = (settings: DetectionSettings): DetectionProvider => ({
+  id: 'gemini',
+  detect: ({ imageDataUrl, signal }) => detectObjects(imageDataUrl, {
+    mode: settings.mode,
+    maxVertices: settings.maxPolygonVertices,
+    maxDimension: settings.maxImageDimension,
+    timeoutMs: settings.requestTimeoutSec * 1000,
+    maxRetries: settings.maxRetries,
+    signal
+  })
+});
+
+// --- Generic HTTP endpoint ---
+// POST { image: <base64 without header>, mimeType, width, height, mode, maxVertices }
+// Response: an array of DetectedObject, or { objects: DetectedObject[] }.
+// `polygon` may be given as [{x, y}] or [[x, y]] pairs, relative to the
+// (possibly downscaled) image that was sent; width/height describe that image.
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const toHttpPoint = (raw: unknown): Point | null => {
+  const [x, y] = Array.isArray(raw) ? raw : isRecord(raw) ? [raw.x, raw.y] : [];
+  return isFiniteNumber(x) && isFiniteNumber(y) ? { x, y } : null;
+};
+
+// null for objects without a label and a complete box. A malformed polygon
+// is dropped and the box kept.
+const normalizeHttpObject = (raw: unknown): DetectedObject | null => {
+  if (!isRecord(raw) || typeof raw.label !== 'string' || !raw.label) return null;
+  const { xmin, ymin, xmax, ymax } = raw;
+  if (!isFiniteNumber(xmin) || !isFiniteNumber(ymin) || !isFiniteNumber(xmax) || !isFiniteNumber(ymax)) return null;
+
+  const polygon = Array.isArray(raw.polygon) ? raw.polygon.map(toHttpPoint) : [];
+  return {
+    label: raw.label,
+    xmin,
+    ymin,
+    xmax,
+    ymax,
+    ...(isFiniteNumber(raw.score) ? { score: raw.score } : {}),
+    ...(polygon.length >= 3 && polygon.every(p => p !== null) ? { polygon: polygon as Point[] } : {})
+  };
+};
+
+const createHttpProvider = (settings: DetectionSettings): DetectionProvider => ({
+  id: 'http',
+  detect: async ({ imageDataUrl, signal }) => {
+    if (!settings.httpEndpoint) {
+      throw new DetectionError('not_configured', '服务地址 (endpoint URL)');
+    }
+    const scaled = await downscaleDataUrl(imageDataUrl, settings.maxImageDimension);
+    const { mimeType, data } = parseDataUrl(scaled.dataUrl);
+    const body = JSON.stringify({
+      image: data,
+      mimeType,
+      width: scaled.width,
+      height: scaled.height,
+      mode: settings.mode,
+      maxVertices: settings.maxPolygonVertices
+    });
+
+    const postOnce = (attemptSignal: AbortSignal) => fetch(settings.httpEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.httpApiKey ? { Authorization: `Bearer ${settings.httpApiKey}` } : {})
+      },
+      body,
+      signal: attemptSignal
+    }).catch(error => {
+      throw new DetectionError('network', error instanceof Error ? error.message : String(error));
+    }).then(async response => {
+      if (!response.ok) {
+        throw new DetectionError(getErrorKindForStatus(response.status), `${response.status} ${response.statusText}`, response.status);
+      }
+      const result: unknown = await response.json().catch(() => null);
+      const objects = Array.isArray(result) ? result : isRecord(result) ? result.objects : null;
+      if (!Array.isArray(objects)) throw new DetectionError('invalid_response');
+      const detected = objects.map(normalizeHttpObject).filter((obj): obj is DetectedObject => obj !== null);
+      if (detected.length < objects.length) {
+        // Nothing usable at all means the service speaks another format
+        if (detected.length === 0) throw new DetectionError('invalid_response', `${objects.length} objects`);
+        console.warn(`Skipped ${objects.length - detected.length} malformed objects from the detection service`);
+      }
+      return detected;
+    });
+
+    return withRetry(
+      () => withTimeout(postOnce, settings.requestTimeoutSec * 1000, signal),
+      { retries: settings.maxRetries, signal }
+    );
+  }
+});
+
+const createOnnxProvider = (settings: DetectionSettings): DetectionProvider => ({
+  id: 'onnx',
+  detect: async ({ imageDataUrl, signal }) => {
+    const objects = await detectWithOnnx(
+      imageDataUrl,
+      settings.onnxModelUrl,
+      settings.onnxInputSize,
+      settings.onnxScoreThreshold
+    );
+    // Inference itself cannot be interrupted; drop the result instead
+    if (signal?.aborted) throw new DetectionError('aborted');
+    return objects;
+  }
+});
+
+// --- Mock ---
+// Fixed, network-free output for exercising the pre-annotation flow: one
+// object of each shape near well-known spots of a card.
+
+const MOCK_DELAY_MS = 400;
+
+export const MOCK_DETECTIONS: DetectedObject[] = [
+  { label: 'corner_wear', xmin: 0.01, ymin: 0.01, xmax: 0.08, ymax: 0.06, score: 0.92 },
+  { label: 'edge_wear', xmin: 0.9, ymin: 0.4, xmax: 0.99, ymax: 0.55, score: 0.71 },
+  { label: 'stain', xmin: 0.4, ymin: 0.6, xmax: 0.55, ymax: 0.7, score: 0.48 },
+  {
+    label: 'scratch', xmin: 0.3, ymin: 0.2, xmax: 0.6, ymax: 0.35, score: 0.83,
+    polygon: [{ x: 0.3, y: 0.33 }, { x: 0.58, y: 0.2 }, { x: 0.6, y: 0.22 }, { x: 0.32, y: 0.35 }]
+  }
+];
+
+const mockProvider: DetectionProvider = {
+  id: 'mock',
+  detect: async ({ signal }) => {
+    if (signal?.aborted) throw new DetectionError('aborted');
+    let onAbort = () => {};
+    try {
+      return await new Promise<DetectedObject[]>((resolve, reject) => {
+        const timer = setTimeout(() => resolve(MOCK_DETECTIONS.map(obj => ({ ...obj }))), MOCK_DELAY_MS);
+        onAbort = () => {
+          clearTimeout(timer);
+          reject(new DetectionError('aborted'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
+
+// --- Tiling ---
+// Runs any provider once per overlapping tile, one tile at a time so remote
+// services are not flooded, then merges the duplicates found on both sides
+// of a seam (see getTileMergeMetric).
+
+const TILE_MERGE_THRESHOLD = 0.5;
+
+const createTiledProvider = (base: DetectionProvider, settings: DetectionSettings): DetectionProvider => ({
+  id: base.id,
+  detect: async ({ imageDataUrl, imageSize, signal, onProgress }) => {
+    const tiles = computeTiles(imageSize, settings.tileSize, settings.tileOverlap);
+    if (tiles.length === 1) return base.detect({ imageDataUrl, imageSize, signal, onProgress });
+
+    const img = await loadImageElement(imageDataUrl);
+    const { mimeType } = parseDataUrl(imageDataUrl);
+    const merged: DetectedObject[] = [];
+    const tileOf = new Map<DetectedObject, ImageTile>();
+    onProgress?.(0, tiles.length);
+    for (const [index, tile] of tiles.entries()) {
+      if (signal?.aborted) throw new DetectionError('aborted');
+      const tileDataUrl = await cropImageToDataUrl(img, tile, mimeType);
+      const detected = await base.detect({
+        imageDataUrl: tileDataUrl,
+        imageSize: { width: tile.width, height: tile.height },
+        signal
+      });
+      detected.forEach(obj => {
+        const mapped = mapTileDetection(obj, tile, imageSize);
+        if (!mapped) return;
+        merged.push(mapped);
+        tileOf.set(mapped, tile);
+      });
+      onProgress?.(index + 1, tiles.length);
+    }
+    return nonMaxSuppression(merged, TILE_MERGE_THRESHOLD, getTileMergeMetric(tileOf, imageSize));
+  }
+});
+
+const getBaseProvider = (settings: DetectionSettings): DetectionProvider => {
+  switch (settings.provider) {
+    case 'http': return createHttpProvider(settings);
+    case 'onnx': return createOnnxProvider(settings);
+    case 'mock': return mockProvider;
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+export const getDetectionProvider = (settings: DetectionSettings): DetectionProvider => {
+  const base = getBaseProvider(settings);
+  return settings.tiled ? createTiledProvider(base, settings) : base;
+};
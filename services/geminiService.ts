@@ -1,59 +1,141 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DetectedObject } from '../types';
-import { GEMINI_MODEL } from '../constants';
+import { GoogleGenAI, Type, ApiError } from "@google/genai";
+import { DetectedObject, DetectionMode } from '../types';
+import { GEMINI_MODEL, LABEL_MAP, LABEL_DESCRIPTIONS, DEFAULT_LABEL } from '../constants';
+import { parseDataUrl, downscaleDataUrl } from '../utils/image';
+import { DetectionError, isDetectionError, getErrorKindForStatus, withRetry, withTimeout } from './detectionErrors';
 
-export const detectObjects = async (base64Image: string): Promise<DetectedObject[]> => {
+// Lists every defect class so the model answers in our taxonomy instead of
+// naming the objects on the card.
+const buildDetectionPrompt = (mode: DetectionMode, maxVertices: number) => {
+  const classes = Object.keys(LABEL_MAP)
+    .map(key => `- ${key}: ${LABEL_DESCRIPTIONS[key] || LABEL_MAP[key]}`)
+    .join('\n');
+  const shapeInstructions = mode === 'polygon'
+    ? [
+      'Find every visible defect and return one bounding box per defect,',
+      `plus a polygon tracing its outline tightly with at most ${maxVertices} vertices.`,
+      'Thin defects such as scratches and creases must be traced as narrow shapes, not boxes.'
+    ]
+    : ['Find every visible defect and return one bounding box per defect.'];
+  return [
+    'You are inspecting a trading card for physical condition defects.',
+    ...shapeInstructions,
+    'Do not label the card itself, its artwork, text or characters.',
+    'Give every defect a score between 0 and 1 for how confident you are that it is a real defect.',
+    `Use exactly one of these class keys as the label (use "${DEFAULT_LABEL}" if unsure):`,
+    classes
+  ].join('\n');
+};
+
+export interface DetectObjectsOptions {
+  mode?: DetectionMode;
+  maxVertices?: number;
+  maxDimension?: number; // Longer side of the image sent to the API; 0 sends it untouched
+  timeoutMs?: number; // Per attempt
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+const POLYGON_SCHEMA = {
+  type: Type.ARRAY,
+  description: "Outline vertices in order, normalized coordinates (0-1)",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      x: { type: Type.NUMBER },
+      y: { type: Type.NUMBER }
+    },
+    required: ["x", "y"]
+  }
+};
+
+const buildResponseSchema = (mode: DetectionMode) => ({
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      label: { type: Type.STRING, enum: Object.keys(LABEL_MAP) },
+      ymin: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" },
+      xmin: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" },
+      ymax: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" },
+      xmax: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" },
+      score: { type: Type.NUMBER, description: "Confidence (0-1)", minimum: 0, maximum: 1 },
+      ...(mode === 'polygon' ? { polygon: POLYGON_SCHEMA } : {})
+    },
+    required: ["label", "ymin", "xmin", "ymax", "xmax", "score", ...(mode === 'polygon' ? ["polygon"] : [])]
+  }
+});
+
+// SDK and fetch failures -> DetectionError
+const toDetectionError = (error: unknown): DetectionError => {
+  if (isDetectionError(error)) return error;
+  if (error instanceof ApiError) {
+    return new DetectionError(getErrorKindForStatus(error.status), error.message, error.status);
+  }
+  // fetch() rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError) return new DetectionError('network', error.message);
+  return new DetectionError('request', error instanceof Error ? error.message : String(error));
+};
+
+const parseResponse = (text: string | undefined): DetectedObject[] => {
+  if (!text) return [];
+  let result: unknown;
+  try {
+    result = JSON.parse(text);
+  } catch {
+    throw new DetectionError('invalid_response', 'JSON');
+  }
+  if (!Array.isArray(result)) throw new DetectionError('invalid_response');
+  // Bounds in the schema are a hint the model does not always honour
+  return (result as DetectedObject[]).map(obj => typeof obj?.score === 'number'
+    ? { ...obj, score: Math.max(0, Math.min(1, obj.score)) }
+    : obj);
+};
+
+// The image is downscaled before upload, but the model answers in coordinates
+// relative to the image it saw; since scaling keeps the aspect ratio, those map
+// straight onto the native-resolution image (see utils/detection.ts).
+export const detectObjects = async (
+  imageDataUrl: string,
+  {
+    mode = 'box',
+    maxVertices = 24,
+    maxDimension = 0,
+    timeoutMs = 60000,
+    maxRetries = 3,
+    signal
+  }: DetectObjectsOptions = {}
+): Promise<DetectedObject[]> => {
   if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please set process.env.API_KEY.");
+    throw new DetectionError('missing_api_key', 'GEMINI_API_KEY');
   }
 
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const scaled = await downscaleDataUrl(imageDataUrl, maxDimension);
+  const { mimeType, data } = parseDataUrl(scaled.dataUrl);
+  if (!mimeType.startsWith('image/')) {
+    throw new DetectionError('request', `不支持的图片格式 (Unsupported image type: ${mimeType})`);
+  }
 
-  // Clean the base64 string if it contains the header
-  const data = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: GEMINI_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png', // Assuming PNG for simplicity, though generic image works
-              data: data
-            }
-          },
-          {
-            text: "Detect all distinct objects in this image. Return a list of bounding boxes with labels. Be granular."
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              label: { type: Type.STRING },
-              ymin: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" },
-              xmin: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" },
-              ymax: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" },
-              xmax: { type: Type.NUMBER, description: "Normalized coordinate (0-1)" }
-            },
-            required: ["label", "ymin", "xmin", "ymax", "xmax"]
-          }
+  return withRetry(() => withTimeout(async attemptSignal => {
+    try {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { mimeType, data } },
+            { text: buildDetectionPrompt(mode, maxVertices) }
+          ]
+        },
+        config: {
+          abortSignal: attemptSignal,
+          responseMimeType: "application/json",
+          responseSchema: buildResponseSchema(mode)
         }
-      }
-    });
-
-    if (response.text) {
-      const result = JSON.parse(response.text) as DetectedObject[];
-      return result;
+      });
+      return parseResponse(response.text);
+    } catch (error) {
+      throw toDetectionError(error);
     }
-    return [];
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
-  }
+  }, timeoutMs, signal), { retries: maxRetries, signal });
 };
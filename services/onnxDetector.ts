@@ -0,0 +1,149 @@
+import type * as Ort from 'onnxruntime-web';
+import { DetectedObject } from '../types';
+import { getOrderedLabelKeys, DEFAULT_LABEL } from '../constants';
+import { loadImageElement } from '../utils/image';
+import { nonMaxSuppression } from '../utils/detection';
+import { DetectionError } from './detectionErrors';
+
+// In-browser inference for YOLO detection models exported to ONNX
+// (Ultralytics `format=onnx`). Class ids are expected in the same order as the
+// YOLO export (classes.txt), so a model trained on our own data maps straight
+// back onto the taxonomy.
+
+const IOU_THRESHOLD = 0.45;
+const LETTERBOX_FILL = 114; // Gray padding used by Ultralytics
+
+let ortModule: Promise<typeof Ort> | null = null;
+let cachedSession: { url: string; session: Promise<Ort.InferenceSession> } | null = null;
+
+// The runtime and its WebAssembly are large; only fetch them when used. The
+// binary is served with the app, so inference also works without internet.
+const loadRuntime = () => {
+  if (!ortModule) {
+    const runtime = Promise.all([
+      import('onnxruntime-web'),
+      import('onnxruntime-web/ort-wasm-simd-threaded.jsep.wasm?url')
+    ]).then(([ort, wasm]) => {
+      ort.env.wasm.wasmPaths = { wasm: wasm.default };
+      return ort;
+    });
+    runtime.catch(() => { if (ortModule === runtime) ortModule = null; });
+    ortModule = runtime;
+  }
+  return ortModule;
+};
+
+const getSession = (modelUrl: string): Promise<Ort.InferenceSession> => {
+  if (!cachedSession || cachedSession.url !== modelUrl) {
+    const session = loadRuntime().then(ort => ort.InferenceSession.create(modelUrl));
+    // Do not keep a failed load around; the next attempt should retry
+    session.catch(() => { if (cachedSession?.session === session) cachedSession = null; });
+    cachedSession = { url: modelUrl, session };
+  }
+  return cachedSession.session;
+};
+
+interface Letterbox {
+  data: Float32Array; // CHW, RGB, 0-1
+  ratio: number;
+  padX: number;
+  padY: number;
+}
+
+const letterbox = (img: HTMLImageElement, size: number): Letterbox => {
+  const ratio = Math.min(size / img.width, size / img.height);
+  const width = Math.round(img.width * ratio);
+  const height = Math.round(img.height * ratio);
+  const padX = (size - width) / 2;
+  const padY = (size - height) / 2;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('浏览器不支持 Canvas (Canvas is not supported)');
+  ctx.fillStyle = `rgb(${LETTERBOX_FILL}, ${LETTERBOX_FILL}, ${LETTERBOX_FILL})`;
+  ctx.fillRect(0, 0, size, size);
+  ctx.drawImage(img, padX, padY, width, height);
+
+  const { data: rgba } = ctx.getImageData(0, 0, size, size);
+  const area = size * size;
+  const data = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    data[i] = rgba[i * 4] / 255;
+    data[area + i] = rgba[i * 4 + 1] / 255;
+    data[2 * area + i] = rgba[i * 4 + 2] / 255;
+  }
+  return { data, ratio, padX, padY };
+};
+
+// Handles both YOLOv8+ output [1, 4 + nc, N] and YOLOv5 [1, N, 5 + nc]
+const decodeOutput = (
+  output: Ort.Tensor,
+  box: Letterbox,
+  imageWidth: number,
+  imageHeight: number,
+  scoreThreshold: number
+): DetectedObject[] => {
+  const classNames = getOrderedLabelKeys();
+  const values = output.data as Float32Array;
+  const [, d1, d2] = output.dims;
+  const channelsFirst = d1 < d2;
+  const channels = channelsFirst ? d1 : d2;
+  const count = channelsFirst ? d2 : d1;
+  const hasObjectness = channels === 5 + classNames.length;
+  const classOffset = hasObjectness ? 5 : 4;
+  const get = (i: number, c: number) => channelsFirst ? values[c * count + i] : values[i * channels + c];
+
+  const objects: DetectedObject[] = [];
+  for (let i = 0; i < count; i++) {
+    let bestClass = 0;
+    let bestScore = 0;
+    for (let c = classOffset; c < channels; c++) {
+      const score = get(i, c);
+      if (score > bestScore) {
+        bestScore = score;
+        bestClass = c - classOffset;
+      }
+    }
+    if (hasObjectness) bestScore *= get(i, 4);
+    if (bestScore < scoreThreshold) continue;
+
+    // Model-space center/size -> original image pixels -> normalized
+    const cx = (get(i, 0) - box.padX) / box.ratio;
+    const cy = (get(i, 1) - box.padY) / box.ratio;
+    const w = get(i, 2) / box.ratio;
+    const h = get(i, 3) / box.ratio;
+    objects.push({
+      label: classNames[bestClass] ?? DEFAULT_LABEL,
+      xmin: (cx - w / 2) / imageWidth,
+      ymin: (cy - h / 2) / imageHeight,
+      xmax: (cx + w / 2) / imageWidth,
+      ymax: (cy + h / 2) / imageHeight,
+      score: bestScore
+    });
+  }
+  return nonMaxSuppression(objects, IOU_THRESHOLD);
+};
+
+export const detectWithOnnx = async (
+  imageDataUrl: string,
+  modelUrl: string,
+  inputSize: number,
+  scoreThreshold: number
+): Promise<DetectedObject[]> => {
+  if (!modelUrl) {
+    throw new DetectionError('not_configured', 'ONNX 模型地址 (model URL)');
+  }
+
+  const [ort, session, img] = await Promise.all([
+    loadRuntime(),
+    getSession(modelUrl),
+    loadImageElement(imageDataUrl)
+  ]);
+
+  const box = letterbox(img, inputSize);
+  const input = new ort.Tensor('float32', box.data, [1, 3, inputSize, inputSize]);
+  const results = await session.run({ [session.inputNames[0]]: input });
+  return decodeOutput(results[session.outputNames[0]], box, img.width, img.height, scoreThreshold);
+};
@@ -0,0 +1,125 @@
+import { Annotation, CenteringMeasurement, ImageFilters, ImageSize, ImageStatus, ViewTransform } from '../types';
+
+// Autosave storage. Image blobs are far too large for localStorage, so the
+// working session lives in IndexedDB: blobs are written once per image into
+// their own store, while the small session document is rewritten on change.
+
+const DB_NAME = 'labelme-ai';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const IMAGE_STORE = 'images';
+const SESSION_KEY = 'current';
+
+export interface SavedImage {
+  id: string;
+  fileName: string;
+  imageSize: ImageSize | null;
+  annotations: Annotation[];
+  transform: ViewTransform | null;
+  status: ImageStatus;
+  centering?: CenteringMeasurement | null; // Missing in sessions saved before centering existed
+}
+
+export interface SavedSession {
+  savedAt: number;
+  currentImageId: string | null;
+  images: SavedImage[];
+  imageFilters: ImageFilters;
+  // Every image is done, or the project was exported after the last change.
+  // Such a session is kept but not offered for restore.
+  complete?: boolean;
+}
+
+export interface RestoredSession {
+  session: SavedSession;
+  blobs: Map<string, Blob>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    work(tx);
+  });
+};
+
+export const saveSession = (session: SavedSession): Promise<void> => {
+  return runTransaction([SESSION_STORE], 'readwrite', tx => {
+    tx.objectStore(SESSION_STORE).put(session, SESSION_KEY);
+  });
+};
+
+export const saveImageBlobs = (images: { id: string; file: Blob }[]): Promise<void> => {
+  return runTransaction([IMAGE_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(IMAGE_STORE);
+    images.forEach(img => store.put(img.file, img.id));
+  });
+};
+
+export const deleteImageBlobs = (ids: string[]): Promise<void> => {
+  return runTransaction([IMAGE_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(IMAGE_STORE);
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+export const loadSession = async (): Promise<RestoredSession | null> => {
+  let session: SavedSession | undefined;
+  const blobs = new Map<string, Blob>();
+
+  await runTransaction([SESSION_STORE, IMAGE_STORE], 'readonly', tx => {
+    const sessionRequest = tx.objectStore(SESSION_STORE).get(SESSION_KEY);
+    sessionRequest.onsuccess = () => {
+      session = sessionRequest.result;
+      if (!session) return;
+      const imageStore = tx.objectStore(IMAGE_STORE);
+      session.images.forEach(img => {
+        const blobRequest = imageStore.get(img.id);
+        blobRequest.onsuccess = () => {
+          if (blobRequest.result) blobs.set(img.id, blobRequest.result);
+        };
+      });
+    };
+  });
+
+  if (!session || session.complete) return null;
+  // Drop entries whose blob went missing (e.g. storage was partially evicted)
+  const images = session.images.filter(img => blobs.has(img.id));
+  if (images.length === 0) return null;
+  return { session: { ...session, images }, blobs };
+};
+
+export const clearSession = (): Promise<void> => {
+  return runTransaction([SESSION_STORE, IMAGE_STORE], 'readwrite', tx => {
+    tx.objectStore(SESSION_STORE).clear();
+    tx.objectStore(IMAGE_STORE).clear();
+  });
+};
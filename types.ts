@@ -4,7 +4,7 @@ export interface Point {
   y: number;
 }
 
-export type ShapeType = 'rectangle' | 'polygon';
+export type ShapeType = 'rectangle' | 'rotated_rect' | 'polygon' | 'polyline' | 'point' | 'circle' | 'ellipse';
 
 export interface Annotation {
   id: string;
@@ -14,21 +14,156 @@ export interface Annotation {
   color: string;
   visible: boolean;
   locked: boolean; // New: Prevent accidental edits
+  needsReview?: boolean; // AI label could not be mapped onto the taxonomy
+  proposed?: boolean; // AI suggestion awaiting review; not part of the ground truth yet
+  score?: number; // Model confidence (0-1) of an AI suggestion
+  strokeWidth?: number; // Polylines: width of the defect in image pixels (default DEFAULT_STROKE_WIDTH)
+  holes?: Point[][]; // Polygons: inner rings cut out of the area (from boolean operations)
 }
 
-export type ToolType = 'select' | 'pan' | 'rectangle' | 'polygon';
+export type ToolType = 'select' | 'pan' | 'rectangle' | 'rotated_rect' | 'polygon' | 'polyline' | 'point' | 'circle' | 'ellipse' | 'magic_wand' | 'centering';
 
 export interface ImageSize {
   width: number;
   height: number;
 }
 
+// Model output, coordinates normalized to 0-1 of the image size
 export interface DetectedObject {
   label: string;
   ymin: number;
   xmin: number;
   ymax: number;
   xmax: number;
+  score?: number; // Model confidence 0-1, when the provider reports one
+  polygon?: Point[]; // Optional outline, same normalized coordinates
+}
+
+// --- AI Detection Providers ---
+
+export type DetectionProviderId = 'gemini' | 'http' | 'onnx' | 'mock';
+
+// 'polygon' asks the model for defect outlines instead of bounding boxes
+export type DetectionMode = 'box' | 'polygon';
+
+export interface DetectionSettings {
+  provider: DetectionProviderId;
+  mode: DetectionMode;
+  maxPolygonVertices: number; // Keeps AI outlines small enough to edit by hand
+  maxImageDimension: number; // Remote providers get images downscaled to this (0 = full size)
+  requestTimeoutSec: number;
+  maxRetries: number; // On rate limits, server errors and timeouts
+  tiled: boolean; // Detect on overlapping full-resolution tiles
+  tileSize: number; // Tile edge in image pixels
+  tileOverlap: number; // Share of a tile shared with its neighbour (0-0.9)
+  httpEndpoint: string;
+  httpApiKey: string;
+  onnxModelUrl: string;
+  onnxInputSize: number; // Square model input, e.g. 640 for YOLO exports
+  onnxScoreThreshold: number;
+}
+
+// --- Grading ---
+
+export type GradeCategory = 'corners' | 'edges' | 'surface' | 'structural';
+
+export type GradingScaleId = 'psa' | 'bgs';
+
+// Editable rules of the grade estimator (see utils/grading.ts for defaults)
+export interface GradingConfig {
+  scale: GradingScaleId;
+  groupCategories: Record<string, GradeCategory>; // LABEL_GROUPS id -> category
+  fallbackCategory: GradeCategory; // Labels outside every group
+  cornerLabels: string[]; // Always counted as corner defects
+  cornerZone: number; // Share of width/height from each corner counted as corner (0-0.5)
+  severity: Record<string, number>; // Per-label multiplier, defaultSeverity otherwise
+  defaultSeverity: number;
+  countPenalty: number; // Points deducted per defect, before severity
+  areaPenalty: number; // Points deducted per 1% of image area, before severity
+  categoryWeights: Record<GradeCategory, number>;
+  maxOverallAboveLowest: number; // The overall grade cannot exceed the worst subgrade by more
+}
+
+// --- Centering ---
+
+export interface BorderBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Outer card edge and inner print border, in image pixels. `inner` is null
+// while the user has only placed the outer edge.
+export interface CenteringMeasurement {
+  outer: BorderBox;
+  inner: BorderBox | null;
+}
+
+// --- Project (multi-image) ---
+
+export interface HistoryItem {
+  annotations: Annotation[];
+  action: string;
+}
+
+export interface HistoryState {
+  past: HistoryItem[];
+  future: HistoryItem[];
+}
+
+export type ImageStatus = 'unlabeled' | 'in_progress' | 'done';
+
+export interface ProjectImage {
+  id: string;
+  file: Blob;
+  fileName: string;
+  src: string; // Object URL for `file`
+  imageSize: ImageSize | null; // Unknown until the image is first opened
+  annotations: Annotation[];
+  history: HistoryState;
+  transform: ViewTransform | null; // Null means "fit to screen" on open
+  status: ImageStatus;
+  centering: CenteringMeasurement | null;
+}
+
+// --- Import / Export ---
+
+// One image worth of annotations, the unit that multi-image exports work on
+export interface AnnotatedImage {
+  fileName: string | null;
+  imageSize: ImageSize;
+  annotations: Annotation[];
+  centering?: CenteringMeasurement | null;
+}
+
+export type ExportFormat =
+  | 'labelme'
+  | 'coco'
+  | 'yolo_detection'
+  | 'yolo_segmentation'
+  | 'yolo_obb'
+  | 'dota'
+  | 'voc'
+  | 'overlay_png'
+  | 'overlay_jpeg'
+  | 'masks'
+  | 'csv'
+  | 'excel';
+
+// Options for rendered image exports
+export interface ExportOptions {
+  applyFilters: boolean;
+  includeLegend: boolean;
+}
+
+export interface ImportResult {
+  annotations: Annotation[];
+  skipped: number; // Shapes that were malformed or of an unsupported type
+  // Multi-image datasets (COCO): annotations per project image file name, the
+  // current image included, and the dataset images the project does not have
+  images?: Map<string, Annotation[]>;
+  unmatchedImages?: number;
 }
 
 export interface ViewTransform {
@@ -75,6 +210,16 @@ export type ActionId =
   | 'NUDGE_LEFT'
   | 'NUDGE_RIGHT'
   | 'NUDGE_UP'
-  | 'NUDGE_DOWN';
+  | 'NUDGE_DOWN'
+  | 'NEXT_IMAGE'
+  | 'PREV_IMAGE'
+  | 'TOOL_CENTERING'
+  | 'TOOL_MAGIC_WAND'
+  | 'TOOL_POLYLINE'
+  | 'TOOL_POINT'
+  | 'TOOL_CIRCLE'
+  | 'TOOL_ELLIPSE'
+  | 'TOOL_ROTATED_RECT'
+  | 'CONFIRM';
 
 export type KeyMap = Record<ActionId, KeyBinding>;
@@ -0,0 +1,58 @@
+import { Annotation, ImageSize, Point, ShapeType } from '../types';
+import { getLabelColor } from '../constants';
+
+// Date-based ids like the drawing tools use, with a counter that increases
+// within the session so annotations created in the same millisecond (imports,
+// AI results, split pieces) still get distinct ids.
+let idCounter = 0;
+
+export const createAnnotationId = (): string => {
+  idCounter++;
+  return `${Date.now()}${idCounter.toString().padStart(4, '0')}`;
+};
+
+export const createAnnotation = (label: string, type: ShapeType, points: Point[]): Annotation => {
+  return {
+    id: createAnnotationId(),
+    label,
+    type,
+    points,
+    color: getLabelColor(label),
+    visible: true,
+    locked: false
+  };
+};
+
+// Annotation files store absolute pixel coordinates, so they only make sense on
+// an image of the size they were drawn on.
+export const assertSameImageSize = (source: ImageSize, target: ImageSize) => {
+  if (source.width !== target.width || source.height !== target.height) {
+    throw new Error(
+      `图片尺寸不匹配: 文件为 ${source.width}x${source.height}，当前图片为 ${target.width}x${target.height} ` +
+      `(Image size mismatch)`
+    );
+  }
+};
+
+// --- AI suggestions ---
+// Suggestions live alongside the real annotations so they can be edited with
+// the normal tools, but are kept out of every export until accepted.
+
+export const getAcceptedAnnotations = (annotations: Annotation[]): Annotation[] => {
+  return annotations.filter(a => !a.proposed);
+};
+
+// Suggestions without a score (e.g. from a model that does not report one)
+// are never hidden by the threshold.
+export const isAboveReviewThreshold = (ann: Annotation, threshold: number): boolean => {
+  return !ann.proposed || (ann.score ?? 1) >= threshold;
+};
+
+export const isAnnotationShown = (ann: Annotation, reviewThreshold: number): boolean => {
+  return ann.visible && isAboveReviewThreshold(ann, reviewThreshold);
+};
+
+export const acceptSuggestion = (ann: Annotation): Annotation => {
+  const { proposed, ...accepted } = ann;
+  return accepted;
+};
@@ -0,0 +1,218 @@
+import { BorderBox, CenteringMeasurement, ImageSize, Point } from '../types';
+import { loadImageElement } from './image';
+
+// --- Centering ---
+// Border widths between the outer card edge and the inner print border,
+// expressed the way graders quote them: left/right and top/bottom shares of
+// the combined border, e.g. 55/45.
+
+export type BorderSide = keyof BorderBox;
+
+export interface CenteringEdge {
+  box: 'outer' | 'inner';
+  side: BorderSide;
+}
+
+export interface CenteringRatios {
+  borders: BorderBox; // Border widths in pixels
+  leftRight: [number, number]; // Percent, sums to 100
+  topBottom: [number, number];
+}
+
+export const boxFromPoints = (a: Point, b: Point): BorderBox => ({
+  left: Math.min(a.x, b.x),
+  top: Math.min(a.y, b.y),
+  right: Math.max(a.x, b.x),
+  bottom: Math.max(a.y, b.y)
+});
+
+const toShares = (a: number, b: number): [number, number] => {
+  const total = a + b;
+  if (total <= 0) return [50, 50];
+  const first = Math.round((a / total) * 1000) / 10;
+  return [first, Math.round((100 - first) * 10) / 10];
+};
+
+export const getCenteringRatios = (m: CenteringMeasurement | null): CenteringRatios | null => {
+  if (!m || !m.inner) return null;
+  const borders: BorderBox = {
+    left: Math.max(0, m.inner.left - m.outer.left),
+    top: Math.max(0, m.inner.top - m.outer.top),
+    right: Math.max(0, m.outer.right - m.inner.right),
+    bottom: Math.max(0, m.outer.bottom - m.inner.bottom)
+  };
+  return {
+    borders,
+    leftRight: toShares(borders.left, borders.right),
+    topBottom: toShares(borders.top, borders.bottom)
+  };
+};
+
+// The second share is derived from the rounded first so the pair always adds up to 100
+export const formatRatio = ([a]: [number, number]): string => {
+  const first = Math.round(a);
+  return `${first}/${100 - first}`;
+};
+
+// Nearest border line within `threshold` pixels, inner edges first since they
+// sit inside the outer box and are the ones usually adjusted.
+export const findCenteringEdge = (m: CenteringMeasurement, p: Point, threshold: number): CenteringEdge | null => {
+  const boxes: [CenteringEdge['box'], BorderBox | null][] = [['inner', m.inner], ['outer', m.outer]];
+  let best: { edge: CenteringEdge; distance: number } | null = null;
+  for (const [name, box] of boxes) {
+    if (!box) continue;
+    const withinX = p.x >= box.left - threshold && p.x <= box.right + threshold;
+    const withinY = p.y >= box.top - threshold && p.y <= box.bottom + threshold;
+    const candidates: [BorderSide, number, boolean][] = [
+      ['left', Math.abs(p.x - box.left), withinY],
+      ['right', Math.abs(p.x - box.right), withinY],
+      ['top', Math.abs(p.y - box.top), withinX],
+      ['bottom', Math.abs(p.y - box.bottom), withinX]
+    ];
+    for (const [side, distance, inRange] of candidates) {
+      if (inRange && distance <= threshold && (!best || distance < best.distance)) {
+        best = { edge: { box: name, side }, distance };
+      }
+    }
+  }
+  return best?.edge ?? null;
+};
+
+export const moveCenteringEdge = (m: CenteringMeasurement, edge: CenteringEdge, p: Point): CenteringMeasurement => {
+  const box = m[edge.box];
+  if (!box) return m;
+  const value = edge.side === 'left' || edge.side === 'right' ? p.x : p.y;
+  return { ...m, [edge.box]: { ...box, [edge.side]: value } };
+};
+
+// --- Auto detection ---
+// Looks for the two strongest colour transitions near each side of the image:
+// the card edge against the background and the print border against the art.
+// On tightly cropped scans there is no background, so a single transition is
+// taken as the print border and the image edge as the card edge.
+
+const ANALYSIS_SIZE = 600;
+const SEARCH_DEPTH = 0.3; // Share of the image searched from each side
+const PEAK_RATIO = 0.35; // Minimum peak strength relative to the strongest one
+const MIN_GAP = 0.01; // Minimum distance between card edge and print border
+
+type Profile = Float32Array;
+
+// Mean RGB per column (or row) over the central half of the other axis, so
+// rounded corners and corner wear do not blur the transitions.
+const buildProfiles = (data: Uint8ClampedArray, width: number, height: number) => {
+  const columns = new Float32Array(width * 3);
+  const rows = new Float32Array(height * 3);
+  const y0 = Math.floor(height / 4), y1 = Math.ceil(height * 3 / 4);
+  const x0 = Math.floor(width / 4), x1 = Math.ceil(width * 3 / 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        if (y >= y0 && y < y1) columns[x * 3 + c] += data[i + c] / (y1 - y0);
+        if (x >= x0 && x < x1) rows[y * 3 + c] += data[i + c] / (x1 - x0);
+      }
+    }
+  }
+  return { columns, rows };
+};
+
+// Colour change between neighbouring columns/rows
+const gradient = (profile: Profile, length: number): Float32Array => {
+  const result = new Float32Array(length);
+  for (let i = 1; i < length; i++) {
+    const dr = profile[i * 3] - profile[(i - 1) * 3];
+    const dg = profile[i * 3 + 1] - profile[(i - 1) * 3 + 1];
+    const db = profile[i * 3 + 2] - profile[(i - 1) * 3 + 2];
+    result[i] = Math.sqrt(dr * dr + dg * dg + db * db);
+  }
+  return result;
+};
+
+// Returns [card edge, print border] positions measured from the given side
+const findSideEdges = (grad: Float32Array, fromEnd: boolean): [number, number] | null => {
+  const length = grad.length;
+  const depth = Math.floor(length * SEARCH_DEPTH);
+  const at = (k: number) => grad[fromEnd ? length - k : k];
+
+  let max = 0;
+  for (let k = 1; k < depth; k++) max = Math.max(max, at(k));
+  if (max <= 0) return null;
+
+  const peaks: number[] = [];
+  for (let k = 2; k < depth - 1; k++) {
+    const v = at(k);
+    if (v >= max * PEAK_RATIO && v >= at(k - 1) && v >= at(k + 1)) peaks.push(k);
+  }
+  if (peaks.length === 0) return null;
+
+  const gap = Math.max(2, Math.round(length * MIN_GAP));
+  const inner = peaks.find(k => k - peaks[0] >= gap);
+  // A lone transition is the print border of a scan cropped to the card
+  return inner === undefined ? [0, peaks[0]] : [peaks[0], inner];
+};
+
+export const detectCentering = async (imageSrc: string, imageSize: ImageSize): Promise<CenteringMeasurement> => {
+  const img = await loadImageElement(imageSrc);
+  const ratio = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * ratio));
+  const height = Math.max(1, Math.round(img.height * ratio));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('浏览器不支持 Canvas (Canvas is not supported)');
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const { columns, rows } = buildProfiles(data, width, height);
+  const gx = gradient(columns, width);
+  const gy = gradient(rows, height);
+  const left = findSideEdges(gx, false);
+  const right = findSideEdges(gx, true);
+  const top = findSideEdges(gy, false);
+  const bottom = findSideEdges(gy, true);
+  if (!left || !right || !top || !bottom) {
+    throw new Error('未能识别卡片边框，请手动标注 (Could not find the card borders)');
+  }
+
+  const sx = imageSize.width / width;
+  const sy = imageSize.height / height;
+  return {
+    outer: {
+      left: left[0] * sx,
+      top: top[0] * sy,
+      right: (width - right[0]) * sx,
+      bottom: (height - bottom[0]) * sy
+    },
+    inner: {
+      left: left[1] * sx,
+      top: top[1] * sy,
+      right: (width - right[1]) * sx,
+      bottom: (height - bottom[1]) * sy
+    }
+  };
+};
+
+// --- Export ---
+
+export interface CenteringRecord {
+  outer: BorderBox;
+  inner: BorderBox | null;
+  borders: BorderBox | null;
+  left_right: string | null;
+  top_bottom: string | null;
+}
+
+// Plain JSON written next to the annotations in exported documents
+export const serializeCentering = (m: CenteringMeasurement): CenteringRecord => {
+  const ratios = getCenteringRatios(m);
+  return {
+    outer: m.outer,
+    inner: m.inner,
+    borders: ratios?.borders ?? null,
+    left_right: ratios ? formatRatio(ratios.leftRight) : null,
+    top_bottom: ratios ? formatRatio(ratios.topBottom) : null
+  };
+};
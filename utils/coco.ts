@@ -0,0 +1,189 @@
+import { Annotation, AnnotatedImage, Point } from '../types';
+import { LABEL_GROUPS, getOrderedLabelKeys } from '../constants';
+import { getAnnotationArea, getAnnotationBounds, getAnnotationOutline, getPointsBounds } from './geometry';
+import { createAnnotation } from './annotation';
+import { serializeCentering, CenteringRecord } from './centering';
+
+// --- COCO JSON ---
+// https://cocodataset.org/#format-data (object detection / instance segmentation)
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory: string;
+}
+
+export interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+  centering?: CenteringRecord; // Our extension
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  bbox: [number, number, number, number]; // [x, y, width, height]
+  area: number;
+  segmentation: number[][] | { counts: unknown; size: [number, number] };
+  iscrowd: 0 | 1;
+}
+
+export interface CocoDataset {
+  info?: Record<string, unknown>;
+  images: CocoImage[];
+  annotations: CocoAnnotation[];
+  categories: CocoCategory[];
+}
+
+const FALLBACK_SUPERCATEGORY = '其他 (Other)';
+
+// Category ids follow getOrderedLabelKeys so they stay stable between
+// exports. Labels outside the taxonomy (e.g. from imported files) are appended.
+export const buildCocoCategories = (extraLabels: string[] = []): CocoCategory[] => {
+  const names = Array.from(new Set([...getOrderedLabelKeys(), ...extraLabels]));
+  return names.map((name, index) => ({
+    id: index + 1,
+    name,
+    supercategory: LABEL_GROUPS.find(group => group.items.includes(name))?.name ?? FALLBACK_SUPERCATEGORY
+  }));
+};
+
+const flattenPoints = (points: Point[]): number[] => points.flatMap(p => [p.x, p.y]);
+
+export const serializeCoco = (entries: AnnotatedImage[]): CocoDataset => {
+  const allLabels = entries.flatMap(e => e.annotations.map(a => a.label));
+  const categories = buildCocoCategories(allLabels);
+  const categoryIds = new Map(categories.map(c => [c.name, c.id]));
+
+  const images: CocoImage[] = [];
+  const cocoAnnotations: CocoAnnotation[] = [];
+
+  entries.forEach((entry, index) => {
+    const imageId = index + 1;
+    images.push({
+      id: imageId,
+      file_name: entry.fileName || `image_${imageId}`,
+      width: entry.imageSize.width,
+      height: entry.imageSize.height,
+      ...(entry.centering ? { centering: serializeCentering(entry.centering) } : {})
+    });
+
+    entry.annotations.forEach(ann => {
+      const b = getAnnotationBounds(ann);
+      cocoAnnotations.push({
+        id: cocoAnnotations.length + 1,
+        image_id: imageId,
+        category_id: categoryIds.get(ann.label)!,
+        bbox: [b.minX, b.minY, b.width, b.height],
+        area: getAnnotationArea(ann),
+        // Rectangles are written as their 4-corner outline too, since most
+        // COCO tooling expects every instance to carry a segmentation.
+        // Points have no extent to segment.
+        segmentation: ann.type === 'point' ? [] : [flattenPoints(getAnnotationOutline(ann))],
+        iscrowd: 0
+      });
+    });
+  });
+
+  return {
+    info: { description: 'Exported from React LabelMe AI', date_created: new Date().toISOString() },
+    images,
+    annotations: cocoAnnotations,
+    categories
+  };
+};
+
+const unflattenPoints = (flat: number[]): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    points.push({ x: Number(flat[i]), y: Number(flat[i + 1]) });
+  }
+  return points;
+};
+
+// A 4-point ring that exactly covers its own bounds is what we write for rectangles
+const isAxisAlignedBox = (points: Point[]): boolean => {
+  if (points.length !== 4) return false;
+  const b = getPointsBounds(points);
+  return points.every(p => (p.x === b.minX || p.x === b.maxX) && (p.y === b.minY || p.y === b.maxY)) &&
+    new Set(points.map(p => `${p.x},${p.y}`)).size === 4;
+};
+
+const convertCocoAnnotation = (coco: CocoAnnotation, label: string): Annotation[] => {
+  if (Array.isArray(coco.segmentation) && coco.segmentation.length > 0) {
+    const results: Annotation[] = [];
+    coco.segmentation.forEach(ring => {
+      if (!Array.isArray(ring)) return;
+      const points = unflattenPoints(ring);
+      if (points.length < 3 || points.some(p => !Number.isFinite(p.x) || !Number.isFinite(p.y))) return;
+      if (isAxisAlignedBox(points)) {
+        const b = getPointsBounds(points);
+        results.push(createAnnotation(label, 'rectangle', [{ x: b.minX, y: b.minY }, { x: b.maxX, y: b.maxY }]));
+      } else {
+        results.push(createAnnotation(label, 'polygon', points));
+      }
+    });
+    if (results.length > 0) return results;
+  }
+
+  // No usable polygon (missing, or RLE masks which we cannot edit): fall back to the box
+  if (Array.isArray(coco.bbox) && coco.bbox.length === 4) {
+    const [x, y, w, h] = coco.bbox.map(Number);
+    if ([x, y, w, h].every(Number.isFinite) && w > 0 && h > 0) {
+      return [createAnnotation(label, 'rectangle', [{ x, y }, { x: x + w, y: y + h }])];
+    }
+  }
+  return [];
+};
+
+export const isCocoDataset = (doc: unknown): doc is CocoDataset => {
+  const d = doc as Partial<CocoDataset> | null;
+  return !!d && Array.isArray(d.images) && Array.isArray(d.annotations) && Array.isArray(d.categories);
+};
+
+export interface CocoImportEntry extends AnnotatedImage {
+  skipped: number; // Annotations of this image that could not be converted
+}
+
+export interface CocoImport {
+  entries: CocoImportEntry[];
+  orphaned: number; // Annotations whose image_id matches no image
+}
+
+export const parseCoco = (text: string): CocoImport => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON (Invalid JSON file)');
+  }
+  if (!isCocoDataset(doc)) {
+    throw new Error('缺少 images/annotations/categories 字段，不是 COCO 格式 (Not a COCO dataset)');
+  }
+
+  const categoryNames = new Map(doc.categories.map(c => [c.id, c.name]));
+  const imageIds = new Set(doc.images.map(image => image.id));
+
+  const entries = doc.images.map(image => {
+    let skipped = 0;
+    const annotations = doc.annotations
+      .filter(a => a.image_id === image.id)
+      .flatMap(a => {
+        const label = categoryNames.get(a.category_id);
+        const converted = label ? convertCocoAnnotation(a, label) : [];
+        if (converted.length === 0) skipped++;
+        return converted;
+      });
+    return {
+      fileName: image.file_name ?? null,
+      imageSize: { width: image.width, height: image.height },
+      annotations,
+      skipped
+    };
+  });
+
+  return { entries, orphaned: doc.annotations.filter(a => !imageIds.has(a.image_id)).length };
+};
@@ -0,0 +1,86 @@
+import { Point } from '../types';
+
+// --- Mask contours ---
+// Connected components of binary masks and their outlines along pixel
+// edges, used by the magic wand.
+
+export interface Components {
+  labels: Int32Array; // 0 outside the mask, otherwise 1..count
+  count: number;
+  sizes: number[]; // Pixel count per label (index 0 unused)
+  starts: number[]; // First pixel of each label in raster order, i.e. its top-left one
+}
+
+export const labelComponents = (mask: Uint8Array, width: number, height: number, connectivity: 4 | 8 = 4): Components => {
+  const labels = new Int32Array(mask.length);
+  const sizes = [0];
+  const starts = [-1];
+  const stack: number[] = [];
+  let count = 0;
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    count++;
+    let size = 0;
+    labels[start] = count;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx === 0 && dy === 0) || (connectivity === 4 && dx !== 0 && dy !== 0)) continue;
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (mask[n] && !labels[n]) {
+            labels[n] = count;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    sizes.push(size);
+    starts.push(start);
+  }
+  return { labels, count, sizes, starts };
+};
+
+// Directions in clockwise order with y pointing down: E, S, W, N
+const DIRECTIONS: [number, number][] = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+// Pixel offsets (from the current grid vertex) ahead-left and ahead-right of each direction
+const AHEAD: [[number, number], [number, number]][] = [
+  [[0, -1], [0, 0]],
+  [[0, 0], [-1, 0]],
+  [[-1, 0], [-1, -1]],
+  [[-1, -1], [0, -1]]
+];
+
+// Walks the outer boundary of the region containing `start` (its top-left
+// pixel) along pixel edges, keeping the region on the right, and returns the
+// corner vertices in grid coordinates. Diagonal neighbours count as
+// connected; anything the region encloses is left to the caller.
+export const traceBoundary = (
+  width: number,
+  height: number,
+  start: number,
+  inside: (index: number) => boolean
+): Point[] => {
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && inside(y * width + x);
+  const sx = start % width;
+  const sy = Math.floor(start / width);
+  // The walk always reaches the start vertex heading north, up the start
+  // pixel's left edge, so begin as if it just did
+  let x = sx, y = sy, dir = 3;
+  const corners: Point[] = [];
+  do {
+    const [[lx, ly], [rx, ry]] = AHEAD[dir];
+    const next = at(x + lx, y + ly) ? (dir + 3) % 4 : at(x + rx, y + ry) ? dir : (dir + 1) % 4;
+    if (next !== dir) corners.push({ x, y });
+    dir = next;
+    x += DIRECTIONS[dir][0];
+    y += DIRECTIONS[dir][1];
+  } while (x !== sx || y !== sy || dir !== 3);
+  return corners;
+};
@@ -0,0 +1,203 @@
+import { Annotation, DetectedObject, DetectionMode, ImageSize } from '../types';
+import { LABEL_MAP, DEFAULT_LABEL, DEFAULT_DETECTION_SETTINGS } from '../constants';
+import { createAnnotation } from './annotation';
+import { limitPolygonVertices } from './geometry';
+
+// Turns raw model output into editor annotations.
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// English part of a LABEL_MAP name: '边缘磨损 (Edge Wear)' -> 'edge_wear'
+const ENGLISH_NAMES: Record<string, string> = Object.fromEntries(
+  Object.entries(LABEL_MAP).map(([key, name]) => {
+    const match = name.match(/\(([^)]+)\)/);
+    return [normalizeLabel(match ? match[1] : key).replace(/&/g, 'and'), key];
+  })
+);
+
+// Wording models commonly use for our classes
+const LABEL_SYNONYMS: Record<string, string> = {
+  'white_edge': 'whitening',
+  'white_edges': 'whitening',
+  'edge_whitening': 'whitening',
+  'corner_whitening': 'whitening',
+  'frayed_edge': 'edge_wear',
+  'rough_edge': 'edge_wear',
+  'rounded_corner': 'soft_corner',
+  'dinged_corner': 'soft_corner',
+  'bent_corner': 'soft_corner',
+  'fold': 'crease',
+  'fold_line': 'crease',
+  'wrinkle': 'crease',
+  'scuff_line': 'scratch',
+  'scrape': 'scratch',
+  'abrasion': 'scuff',
+  'chip': 'chipping',
+  'ink_loss': 'chipping',
+  'print_defect': 'print_line',
+  'roller_line': 'print_line',
+  'print_spot': 'spot',
+  'fish_eye': 'spot',
+  'speck': 'spot',
+  'dust': 'dirt',
+  'smudge': 'dirt',
+  'fingerprint': 'dirt',
+  'yellowing': 'discoloration',
+  'fading': 'discoloration',
+  'warp': 'bend',
+  'warping': 'bend',
+  'ding': 'impact',
+  'indentation': 'dent',
+  'rip': 'tear',
+  'rust': 'corrosion',
+  'oxidation': 'silvering',
+  'hair': 'foreign_matter',
+  'fiber': 'foreign_matter',
+  'wax': 'wax_stain'
+};
+
+// Labels within this similarity (0-1) of a known one are treated as typos
+const FUZZY_MATCH_THRESHOLD = 0.8;
+
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const KNOWN_LABELS: Record<string, string> = { ...LABEL_SYNONYMS, ...ENGLISH_NAMES };
+Object.keys(LABEL_MAP).forEach(key => { KNOWN_LABELS[key] = key; });
+
+export interface LabelMatch {
+  label: string;
+  known: boolean;
+}
+
+// Exact key, English name or synonym first, then the closest spelling.
+// Anything else becomes DEFAULT_LABEL and is reported as unknown.
+export const mapDetectedLabel = (label: string): LabelMatch => {
+  const normalized = normalizeLabel(label || '').replace(/&/g, 'and');
+  // Plural forms ("scratches", "creases") are common in free-form answers
+  const singular = normalized.replace(/(es|s)$/, '');
+  const direct = KNOWN_LABELS[normalized] || KNOWN_LABELS[singular] || KNOWN_LABELS[normalized.replace(/s$/, '')];
+  if (direct) return { label: direct, known: true };
+
+  let best: { label: string; similarity: number } | null = null;
+  for (const [candidate, key] of normalized ? Object.entries(KNOWN_LABELS) : []) {
+    const similarity = 1 - levenshtein(normalized, candidate) / Math.max(normalized.length, candidate.length);
+    if (!best || similarity > best.similarity) best = { label: key, similarity };
+  }
+  if (best && best.similarity >= FUZZY_MATCH_THRESHOLD) return { label: best.label, known: true };
+  return { label: DEFAULT_LABEL, known: false };
+};
+
+// The schema asks for 0-1 coordinates, but Gemini is trained on a 0-1000 grid
+// and sometimes answers in it regardless.
+const getCoordinateScale = (obj: DetectedObject) => {
+  return Math.max(obj.xmin, obj.ymin, obj.xmax, obj.ymax) > 1 ? 1000 : 1;
+};
+
+export interface DetectionConversionOptions {
+  mode?: DetectionMode;
+  maxPolygonVertices?: number;
+}
+
+// In 'polygon' mode an outline with at least 3 points becomes a polygon
+// (thinned to the vertex budget); everything else falls back to the box.
+export const detectionToAnnotation = (
+  obj: DetectedObject,
+  imageSize: ImageSize,
+  {
+    mode = DEFAULT_DETECTION_SETTINGS.mode,
+    maxPolygonVertices = DEFAULT_DETECTION_SETTINGS.maxPolygonVertices
+  }: DetectionConversionOptions = {}
+): Annotation | null => {
+  const values = [obj.xmin, obj.ymin, obj.xmax, obj.ymax];
+  if (values.some(v => typeof v !== 'number' || !Number.isFinite(v))) return null;
+
+  const scale = getCoordinateScale(obj);
+  const clamp = (v: number) => Math.max(0, Math.min(1, v / scale));
+  const x1 = clamp(Math.min(obj.xmin, obj.xmax)) * imageSize.width;
+  const x2 = clamp(Math.max(obj.xmin, obj.xmax)) * imageSize.width;
+  const y1 = clamp(Math.min(obj.ymin, obj.ymax)) * imageSize.height;
+  const y2 = clamp(Math.max(obj.ymin, obj.ymax)) * imageSize.height;
+
+  // Same minimum size as a hand-drawn rectangle
+  if (x2 - x1 <= 1 || y2 - y1 <= 1) return null;
+
+  const { label, known } = mapDetectedLabel(obj.label);
+  const polygon = mode === 'polygon'
+    ? (obj.polygon || []).filter(p => Number.isFinite(p.x) && Number.isFinite(p.y))
+    : [];
+  const annotation = polygon.length >= 3
+    ? createAnnotation(label, 'polygon', limitPolygonVertices(polygon.map(p => ({
+      x: clamp(p.x) * imageSize.width,
+      y: clamp(p.y) * imageSize.height
+    })), maxPolygonVertices))
+    : createAnnotation(label, 'rectangle', [{ x: x1, y: y1 }, { x: x2, y: y2 }]);
+  return {
+    ...annotation,
+    ...(typeof obj.score === 'number' ? { score: obj.score } : {}),
+    ...(known ? {} : { needsReview: true })
+  };
+};
+
+// Same object with 0-1 coordinates, or null when a coordinate is unusable;
+// for callers that combine detections before turning them into annotations.
+export const normalizeDetectedObject = (obj: DetectedObject): DetectedObject | null => {
+  const values = [obj.xmin, obj.ymin, obj.xmax, obj.ymax];
+  if (values.some(v => typeof v !== 'number' || !Number.isFinite(v))) return null;
+  const scale = getCoordinateScale(obj);
+  const clamp = (v: number) => Math.max(0, Math.min(1, v / scale));
+  return {
+    ...obj,
+    xmin: clamp(Math.min(obj.xmin, obj.xmax)),
+    ymin: clamp(Math.min(obj.ymin, obj.ymax)),
+    xmax: clamp(Math.max(obj.xmin, obj.xmax)),
+    ymax: clamp(Math.max(obj.ymin, obj.ymax)),
+    ...(obj.polygon ? {
+      polygon: obj.polygon
+        .filter(p => Number.isFinite(p.x) && Number.isFinite(p.y))
+        .map(p => ({ x: clamp(p.x), y: clamp(p.y) }))
+    } : {})
+  };
+};
+
+// 'iou': intersection over union. 'ios': intersection over the smaller box,
+// which also catches a defect cut in half by a tile seam.
+export type OverlapMetric = 'iou' | 'ios';
+
+const getOverlap = (a: DetectedObject, b: DetectedObject, metric: OverlapMetric): number => {
+  const ix = Math.max(0, Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin));
+  const iy = Math.max(0, Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin));
+  const intersection = ix * iy;
+  const areaA = (a.xmax - a.xmin) * (a.ymax - a.ymin);
+  const areaB = (b.xmax - b.xmin) * (b.ymax - b.ymin);
+  const base = metric === 'ios' ? Math.min(areaA, areaB) : areaA + areaB - intersection;
+  return base > 0 ? intersection / base : 0;
+};
+
+// Greedy per-label non-maximum suppression; objects without a score rank last.
+// Labels are compared after mapping, so "Scratch" and "scratches" compete.
+// `metric` may also be chosen per pair (kept object, candidate).
+export const nonMaxSuppression = (
+  objects: DetectedObject[],
+  threshold: number,
+  metric: OverlapMetric | ((a: DetectedObject, b: DetectedObject) => OverlapMetric) = 'iou'
+): DetectedObject[] => {
+  const metricFor = typeof metric === 'function' ? metric : () => metric;
+  const sorted = objects
+    .map(obj => ({ obj, label: mapDetectedLabel(obj.label).label }))
+    .sort((a, b) => (b.obj.score ?? 0) - (a.obj.score ?? 0));
+  const kept: typeof sorted = [];
+  sorted.forEach(item => {
+    if (!kept.some(k => k.label === item.label && getOverlap(k.obj, item.obj, metricFor(k.obj, item.obj)) > threshold)) kept.push(item);
+  });
+  return kept.map(k => k.obj);
+};
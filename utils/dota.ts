@@ -0,0 +1,65 @@
+import { Annotation, ImageSize, Point, ImportResult } from '../types';
+import { getOrientedCorners, getRotatedBoxCorners, getRotatedBox, isRectangleCorners } from './geometry';
+import { createAnnotation } from './annotation';
+
+// --- DOTA ---
+// One oriented box per line, in pixels, corners clockwise:
+//   x1 y1 x2 y2 x3 y3 x4 y4 <category> <difficult>
+// Optional "imagesource:" / "gsd:" header lines are skipped on import.
+
+const fmt = (n: number) => Number(n.toFixed(2)).toString();
+
+export const serializeDota = (annotations: Annotation[]): string => {
+  const lines = annotations
+    // Points have no extent to box
+    .filter(ann => ann.type !== 'point')
+    .map(ann => {
+      const coords = getOrientedCorners(ann).flatMap(p => [fmt(p.x), fmt(p.y)]);
+      // Category names cannot contain spaces
+      return [...coords, ann.label.replace(/\s+/g, '_'), 0].join(' ');
+    });
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+};
+
+const isHeaderLine = (line: string) => /^(imagesource|gsd)\s*:/i.test(line);
+
+// A DOTA line has 8 numbers followed by a category name
+export const isDotaDocument = (text: string): boolean => {
+  const first = text.split(/\r?\n/).map(l => l.trim()).find(l => l && !isHeaderLine(l));
+  if (!first) return false;
+  const tokens = first.split(/\s+/);
+  return tokens.length >= 9 && tokens.slice(0, 8).every(t => Number.isFinite(Number(t))) && !Number.isFinite(Number(tokens[8]));
+};
+
+export const parseDota = (text: string, imageSize: ImageSize): ImportResult => {
+  const annotations: Annotation[] = [];
+  let skipped = 0;
+
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || isHeaderLine(trimmed)) return;
+
+    const tokens = trimmed.split(/\s+/);
+    const coords = tokens.slice(0, 8).map(Number);
+    const label = tokens[8];
+    if (tokens.length < 9 || coords.some(v => !Number.isFinite(v)) || !label) {
+      skipped++;
+      return;
+    }
+
+    const points: Point[] = [];
+    for (let i = 0; i < 8; i += 2) points.push({ x: coords[i], y: coords[i + 1] });
+    // Hand-made DOTA files are rarely exact; square them up when close, and
+    // keep anything else as the quadrilateral it is. Boxes may poke out of the
+    // image, and clamping their corners would skew them, so only the
+    // quadrilateral is clamped.
+    annotations.push(isRectangleCorners(points, 0.02)
+      ? createAnnotation(label, 'rotated_rect', getRotatedBoxCorners(getRotatedBox(points)))
+      : createAnnotation(label, 'polygon', points.map(p => ({
+        x: Math.max(0, Math.min(p.x, imageSize.width)),
+        y: Math.max(0, Math.min(p.y, imageSize.height))
+      }))));
+  });
+
+  return { annotations, skipped };
+};
@@ -0,0 +1,31 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const downloadAnchorNode = document.createElement('a');
+  downloadAnchorNode.setAttribute("href", url);
+  downloadAnchorNode.setAttribute("download", fileName);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+  // Give the browser a tick to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (text: string, fileName: string, mimeType: string = 'application/json') => {
+  downloadBlob(new Blob([text], { type: `${mimeType};charset=utf-8` }), fileName);
+};
+
+export const readFileAsText = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+};
+
+// "card_001.front.png" -> "card_001.front"
+export const getBaseName = (fileName: string | null, fallback: string = 'annotations'): string => {
+  if (!fileName) return fallback;
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
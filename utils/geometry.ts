@@ -1,4 +1,5 @@
-import { Point, ViewTransform, Annotation } from '../types';
+import { Point, ViewTransform, Annotation, ImageSize } from '../types';
+import { DEFAULT_STROKE_WIDTH } from '../constants';
 
 export const screenToImage = (
   x: number,
@@ -67,18 +68,242 @@ export const calculatePolygonArea = (points: Point[]): number => {
   return Math.abs(area) / 2;
 };
 
+// --- Polylines ---
+// Open lines for scratches and cracks. They are measured by length; the
+// stroke width turns them into an area for masks, exports and grading.
+
+export const getStrokeWidth = (ann: Annotation): number => ann.strokeWidth ?? DEFAULT_STROKE_WIDTH;
+
+export const getPolylineLength = (points: Point[]): number => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) length += getDistance(points[i - 1], points[i]);
+  return length;
+};
+
+export const getDistanceToPolyline = (p: Point, points: Point[]): number => {
+  if (points.length === 1) return getDistance(p, points[0]);
+  let min = Infinity;
+  for (let i = 1; i < points.length; i++) min = Math.min(min, getDistanceToSegment(p, points[i - 1], points[i]));
+  return min;
+};
+
+// Single closed outline of the stroke (mitred joins, butt ends), for formats
+// that need one polygon per object
+export const getPolylineRibbon = (points: Point[], width: number): Point[] => {
+  const half = width / 2;
+  const normals: Point[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    const dy = points[i].y - points[i - 1].y;
+    const length = Math.sqrt(dx * dx + dy * dy) || 1;
+    normals.push({ x: -dy / length, y: dx / length });
+  }
+  if (normals.length === 0) return points;
+
+  const left: Point[] = [];
+  const right: Point[] = [];
+  points.forEach((p, i) => {
+    const a = normals[Math.max(0, i - 1)];
+    const b = normals[Math.min(normals.length - 1, i)];
+    const mx = a.x + b.x, my = a.y + b.y;
+    const ml = Math.sqrt(mx * mx + my * my);
+    // Back-tracking lines have no usable miter; fall back to the segment normal
+    const n = ml < 1e-6 ? a : { x: mx / ml, y: my / ml };
+    // Miter length, capped so sharp turns do not spike
+    const scale = Math.min(2, 1 / Math.max(1e-6, n.x * a.x + n.y * a.y)) * half;
+    left.push({ x: p.x + n.x * scale, y: p.y + n.y * scale });
+    right.push({ x: p.x - n.x * scale, y: p.y - n.y * scale });
+  });
+  return [...left, ...right.reverse()];
+};
+
+// The area a round brush of the stroke width covers along the line, as a
+// quad per segment plus an octagon per vertex; for rasterizing, where the
+// pieces may overlap freely.
+export const getStrokePolygons = (points: Point[], width: number): Point[][] => {
+  const half = width / 2;
+  const polygons: Point[][] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1], b = points[i];
+    const length = getDistance(a, b);
+    if (length === 0) continue;
+    const nx = -(b.y - a.y) / length * half;
+    const ny = (b.x - a.x) / length * half;
+    polygons.push([
+      { x: a.x + nx, y: a.y + ny }, { x: b.x + nx, y: b.y + ny },
+      { x: b.x - nx, y: b.y - ny }, { x: a.x - nx, y: a.y - ny }
+    ]);
+  }
+  points.forEach(p => {
+    polygons.push(Array.from({ length: 8 }, (_, k) => ({
+      x: p.x + Math.cos(k * Math.PI / 4) * half,
+      y: p.y + Math.sin(k * Math.PI / 4) * half
+    })));
+  });
+  return polygons;
+};
+
+// --- Round shapes ---
+// Circles are stored as [center, point on the circumference] (as in LabelMe),
+// ellipses as the two corners of their axis-aligned bounding box, like
+// rectangles. Points are a single vertex with no extent.
+
+// Segments used when a round shape has to become a polygon; a multiple of 4
+// so the outline touches the bounding box exactly
+export const ROUND_SHAPE_SEGMENTS = 32;
+
+export const getCircleRadius = (points: Point[]): number => points.length >= 2 ? getDistance(points[0], points[1]) : 0;
+
+export const getEllipseOutline = (cx: number, cy: number, rx: number, ry: number): Point[] => {
+  return Array.from({ length: ROUND_SHAPE_SEGMENTS }, (_, i) => {
+    const angle = (i / ROUND_SHAPE_SEGMENTS) * Math.PI * 2;
+    return { x: cx + Math.cos(angle) * rx, y: cy + Math.sin(angle) * ry };
+  });
+};
+
+// Whether `p` lies inside (or within `buffer` of) a point, circle or ellipse
+export const isPointInRoundShape = (ann: Annotation, p: Point, buffer: number): boolean => {
+  if (ann.type === 'point') return getDistance(p, ann.points[0]) <= buffer;
+  if (ann.type === 'circle') return getDistance(p, ann.points[0]) <= getCircleRadius(ann.points) + buffer;
+  if (ann.type === 'ellipse') {
+    const b = getPointsBounds(ann.points);
+    const dx = (p.x - b.centerX) / (b.width / 2 + buffer);
+    const dy = (p.y - b.centerY) / (b.height / 2 + buffer);
+    return dx * dx + dy * dy <= 1;
+  }
+  return false;
+};
+
+// --- Rotated rectangles ---
+// Stored as their 4 corners in order (top-left, top-right, bottom-right,
+// bottom-left before rotation), so moving, masks and polygon exports work as
+// for any outline. Center, size and angle are derived from the corners.
+
+export interface RotatedBox {
+  centerX: number;
+  centerY: number;
+  width: number; // Along the first edge (corner 0 -> 1)
+  height: number;
+  angle: number; // Radians, clockwise on screen, of the first edge from the x axis
+}
+
+export const getRotatedBox = (points: Point[]): RotatedBox => {
+  const [p0, p1, p2] = points;
+  return {
+    centerX: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    centerY: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    width: getDistance(p0, p1),
+    height: getDistance(p1, p2),
+    angle: Math.atan2(p1.y - p0.y, p1.x - p0.x)
+  };
+};
+
+export const getRotatedBoxCorners = (box: RotatedBox): Point[] => {
+  const cos = Math.cos(box.angle);
+  const sin = Math.sin(box.angle);
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+    const u = sx * box.width / 2;
+    const v = sy * box.height / 2;
+    return { x: box.centerX + u * cos - v * sin, y: box.centerY + u * sin + v * cos };
+  });
+};
+
+export const rotatePoints = (points: Point[], center: Point, angle: number): Point[] => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return points.map(p => ({
+    x: center.x + (p.x - center.x) * cos - (p.y - center.y) * sin,
+    y: center.y + (p.x - center.x) * sin + (p.y - center.y) * cos
+  }));
+};
+
+// Drags corner `index` to `target` while the opposite corner stays put and
+// the sides keep their direction
+export const resizeRotatedRect = (points: Point[], index: number, target: Point): Point[] => {
+  const { angle } = getRotatedBox(points);
+  const opposite = points[(index + 2) % 4];
+  const dx = opposite.x - target.x;
+  const dy = opposite.y - target.y;
+  // Corner 0 -> 1 runs along the first axis, 1 -> 2 along the second
+  const first = { x: Math.cos(angle), y: Math.sin(angle) };
+  const second = { x: -first.y, y: first.x };
+  const [next, previous] = index % 2 === 0 ? [first, second] : [second, first];
+  const along = (axis: Point) => {
+    const t = dx * axis.x + dy * axis.y;
+    return { x: target.x + axis.x * t, y: target.y + axis.y * t };
+  };
+  const result = [...points];
+  result[index] = target;
+  result[(index + 1) % 4] = along(next);
+  result[(index + 3) % 4] = along(previous);
+  return result;
+};
+
+// Four corners for oriented-box exports: rotated rectangles as drawn,
+// everything else as its axis-aligned bounding box
+export const getOrientedCorners = (ann: Annotation): Point[] => {
+  if (ann.type === 'rotated_rect') return ann.points;
+  const b = getAnnotationBounds(ann);
+  return [
+    { x: b.minX, y: b.minY }, { x: b.maxX, y: b.minY },
+    { x: b.maxX, y: b.maxY }, { x: b.minX, y: b.maxY }
+  ];
+};
+
+// Whether `points` are the corners of a (possibly rotated) rectangle
+export const isRectangleCorners = (points: Point[], tolerance = 1e-3): boolean => {
+  if (points.length !== 4) return false;
+  return points.every((p, i) => {
+    const prev = points[(i + 3) % 4];
+    const next = points[(i + 1) % 4];
+    const ax = prev.x - p.x, ay = prev.y - p.y;
+    const bx = next.x - p.x, by = next.y - p.y;
+    const la = Math.hypot(ax, ay), lb = Math.hypot(bx, by);
+    return la > 0 && lb > 0 && Math.abs(ax * bx + ay * by) / (la * lb) <= tolerance;
+  });
+};
+
+// Even-odd ray casting
+export const isPointInPolygon = (p: Point, points: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i], b = points[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
 // Get area for any annotation type
 export const getAnnotationArea = (annotation: Annotation): number => {
   if (annotation.type === 'rectangle') {
     const width = Math.abs(annotation.points[0].x - annotation.points[1].x);
     const height = Math.abs(annotation.points[0].y - annotation.points[1].y);
     return width * height;
+  } else if (annotation.type === 'rotated_rect') {
+    const box = getRotatedBox(annotation.points);
+    return box.width * box.height;
   } else if (annotation.type === 'polygon') {
-    return calculatePolygonArea(annotation.points);
+    const holes = (annotation.holes ?? []).reduce((sum, hole) => sum + calculatePolygonArea(hole), 0);
+    return Math.max(0, calculatePolygonArea(annotation.points) - holes);
+  } else if (annotation.type === 'polyline') {
+    return getPolylineLength(annotation.points) * getStrokeWidth(annotation);
+  } else if (annotation.type === 'circle') {
+    return Math.PI * getCircleRadius(annotation.points) ** 2;
+  } else if (annotation.type === 'ellipse') {
+    const b = getPointsBounds(annotation.points);
+    return Math.PI * (b.width / 2) * (b.height / 2);
   }
   return 0;
 };
 
+// Share of the image covered by an annotation, in percent
+export const getAnnotationAreaPercentage = (annotation: Annotation, imageSize: ImageSize): number => {
+  const totalImageArea = imageSize.width * imageSize.height;
+  return totalImageArea > 0 ? (getAnnotationArea(annotation) / totalImageArea * 100) : 0;
+};
+
 // --- New Helpers for Alignment ---
 
 export interface BoundingBox {
@@ -113,12 +338,162 @@ export const getPointsBounds = (points: Point[]): BoundingBox => {
 };
 
 export const getAnnotationBounds = (ann: Annotation): BoundingBox => {
-  return getPointsBounds(ann.points);
+  // A polyline's box includes its stroke, so straight lines are never 0 wide;
+  // a circle's spans its radius around the center
+  return getPointsBounds(ann.type === 'polyline' || ann.type === 'circle' ? getAnnotationOutline(ann) : ann.points);
 };
 
 export const moveAnnotation = (ann: Annotation, dx: number, dy: number): Annotation => {
   return {
     ...ann,
-    points: ann.points.map(p => ({ x: p.x + dx, y: p.y + dy }))
+    points: ann.points.map(p => ({ x: p.x + dx, y: p.y + dy })),
+    ...(ann.holes ? { holes: ann.holes.map(hole => hole.map(p => ({ x: p.x + dx, y: p.y + dy }))) } : {})
+  };
+};
+
+// Single ring for a polygon with holes: each hole is joined to the outer ring
+// by a zero-width cut at its closest vertex pair. Filled with the even-odd
+// rule it covers exactly the polygon minus its holes, which is how formats
+// without holes (COCO polygons, YOLO segmentation, masks) receive them.
+export const getBridgedOutline = (points: Point[], holes: Point[][]): Point[] => {
+  let ring = points;
+  holes.filter(hole => hole.length >= 3).forEach(hole => {
+    let best = { i: 0, j: 0, distance: Infinity };
+    ring.forEach((p, i) => hole.forEach((q, j) => {
+      const distance = getDistance(p, q);
+      if (distance < best.distance) best = { i, j, distance };
+    }));
+    const { i, j } = best;
+    ring = [
+      ...ring.slice(0, i + 1),
+      ...hole.slice(j), ...hole.slice(0, j + 1),
+      ...ring.slice(i)
+    ];
+  });
+  return ring;
+};
+
+// Closed outline of any annotation (rectangles expand to their 4 corners)
+export const getAnnotationOutline = (ann: Annotation): Point[] => {
+  if (ann.type === 'rectangle') {
+    const b = getAnnotationBounds(ann);
+    return [
+      { x: b.minX, y: b.minY }, { x: b.maxX, y: b.minY },
+      { x: b.maxX, y: b.maxY }, { x: b.minX, y: b.maxY }
+    ];
+  }
+  if (ann.type === 'polyline') return getPolylineRibbon(ann.points, getStrokeWidth(ann));
+  if (ann.type === 'circle') {
+    const r = getCircleRadius(ann.points);
+    return getEllipseOutline(ann.points[0].x, ann.points[0].y, r, r);
+  }
+  if (ann.type === 'ellipse') {
+    const b = getPointsBounds(ann.points);
+    return getEllipseOutline(b.centerX, b.centerY, b.width / 2, b.height / 2);
+  }
+  if (ann.type === 'polygon' && ann.holes?.length) return getBridgedOutline(ann.points, ann.holes);
+  return ann.points;
+};
+
+// Reduces a closed polygon to at most `maxVertices` points by repeatedly
+// dropping the vertex that spans the smallest triangle with its neighbours
+// (Visvalingam–Whyatt), which keeps the overall shape of thin outlines.
+export const limitPolygonVertices = (points: Point[], maxVertices: number): Point[] => {
+  const limit = Math.max(3, Math.floor(maxVertices));
+  if (points.length <= limit) return points;
+
+  const result = [...points];
+  const triangleArea = (i: number) => {
+    const n = result.length;
+    const a = result[(i - 1 + n) % n];
+    const b = result[i];
+    const c = result[(i + 1) % n];
+    return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
   };
-};
\ No newline at end of file
+
+  while (result.length > limit) {
+    let smallest = 0;
+    let smallestArea = Infinity;
+    for (let i = 0; i < result.length; i++) {
+      const area = triangleArea(i);
+      if (area < smallestArea) {
+        smallestArea = area;
+        smallest = i;
+      }
+    }
+    result.splice(smallest, 1);
+  }
+  return result;
+};
+
+// Douglas–Peucker on a closed polygon: drops vertices that lie within
+// `tolerance` pixels of the simplified outline.
+export const simplifyPolygon = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 3 || tolerance <= 0) return points;
+
+  const simplifyOpen = (line: Point[]): Point[] => {
+    const first = line[0];
+    const last = line[line.length - 1];
+    let index = -1;
+    let maxDistance = tolerance;
+    for (let i = 1; i < line.length - 1; i++) {
+      const distance = getDistanceToSegment(line[i], first, last);
+      if (distance > maxDistance) {
+        index = i;
+        maxDistance = distance;
+      }
+    }
+    if (index === -1) return [first, last];
+    const left = simplifyOpen(line.slice(0, index + 1));
+    return [...left.slice(0, -1), ...simplifyOpen(line.slice(index))];
+  };
+
+  // Split the ring at the vertex farthest from the first one so both halves
+  // are open lines with well-defined end points
+  let far = 0;
+  points.forEach((p, i) => {
+    if (getDistance(p, points[0]) > getDistance(points[far], points[0])) far = i;
+  });
+  const result = [
+    ...simplifyOpen(points.slice(0, far + 1)).slice(0, -1),
+    ...simplifyOpen([...points.slice(far), points[0]]).slice(0, -1)
+  ];
+  return result.length >= 3 ? result : points;
+};
+
+// Chaikin corner cutting on a closed polygon: every pass replaces each edge
+// by the points at 1/4 and 3/4 along it, rounding the corners off while
+// doubling the vertex count.
+export const smoothPolygon = (points: Point[], iterations: number): Point[] => {
+  let ring = points;
+  for (let k = 0; k < iterations && ring.length >= 3; k++) {
+    ring = ring.flatMap((p, i) => {
+      const q = ring[(i + 1) % ring.length];
+      return [
+        { x: 0.75 * p.x + 0.25 * q.x, y: 0.75 * p.y + 0.25 * q.y },
+        { x: 0.25 * p.x + 0.75 * q.x, y: 0.25 * p.y + 0.75 * q.y }
+      ];
+    });
+  }
+  return ring;
+};
+
+export interface SimplifyOptions {
+  tolerance: number; // Douglas–Peucker distance in image pixels
+  smoothing: number; // Chaikin passes applied afterwards
+}
+
+// Shapes the simplification applies to
+export const isSimplifiable = (ann: Annotation): boolean => {
+  return !ann.locked && ann.type === 'polygon';
+};
+
+// Simplified, then smoothed, outline and holes of a polygon
+export const simplifyPolygonShape = (ann: Annotation, { tolerance, smoothing }: SimplifyOptions): Pick<Annotation, 'points' | 'holes'> => {
+  const process = (ring: Point[]) => smoothPolygon(simplifyPolygon(ring, tolerance), smoothing);
+  return { points: process(ann.points), holes: ann.holes?.map(process) };
+};
+
+export const countAnnotationVertices = (ann: Annotation): number => {
+  return ann.points.length + (ann.holes ?? []).reduce((sum, hole) => sum + hole.length, 0);
+};
@@ -0,0 +1,240 @@
+import { Annotation, GradeCategory, GradingConfig, GradingScaleId, ImageSize } from '../types';
+import { getLabelGroupId } from '../constants';
+import { getAnnotationAreaPercentage, getAnnotationBounds } from './geometry';
+
+// --- Grade estimator ---
+// Every category starts at 10 and loses points per defect:
+//   severity(label) * (countPenalty + areaPenalty * area%)
+// Subgrades and the overall grade are then floored onto the chosen scale.
+// This is an estimate for triage, not a substitute for a grading service.
+
+export const GRADE_CATEGORIES: GradeCategory[] = ['corners', 'edges', 'surface', 'structural'];
+
+export const GRADE_CATEGORY_NAMES: Record<GradeCategory, string> = {
+  corners: '边角 (Corners)',
+  edges: '边缘 (Edges)',
+  surface: '表面 (Surface)',
+  structural: '结构 (Structural)'
+};
+
+export interface GradingScale {
+  id: GradingScaleId;
+  name: string;
+  step: number;
+  min: number;
+  max: number;
+  labels: { grade: number; name: string }[]; // Descending
+}
+
+export const GRADING_SCALES: Record<GradingScaleId, GradingScale> = {
+  psa: {
+    id: 'psa',
+    name: 'PSA (1-10)',
+    step: 1,
+    min: 1,
+    max: 10,
+    labels: [
+      { grade: 10, name: 'GEM MT' },
+      { grade: 9, name: 'MINT' },
+      { grade: 8, name: 'NM-MT' },
+      { grade: 7, name: 'NM' },
+      { grade: 6, name: 'EX-MT' },
+      { grade: 5, name: 'EX' },
+      { grade: 4, name: 'VG-EX' },
+      { grade: 3, name: 'VG' },
+      { grade: 2, name: 'GOOD' },
+      { grade: 1, name: 'PR' }
+    ]
+  },
+  bgs: {
+    id: 'bgs',
+    name: 'BGS (1-10, 半分)',
+    step: 0.5,
+    min: 1,
+    max: 10,
+    labels: [
+      { grade: 10, name: 'Pristine' },
+      { grade: 9.5, name: 'Gem Mint' },
+      { grade: 9, name: 'Mint' },
+      { grade: 8, name: 'NM-Mint' },
+      { grade: 7, name: 'Near Mint' },
+      { grade: 6, name: 'Excellent-Mint' },
+      { grade: 5, name: 'Excellent' },
+      { grade: 4, name: 'VG-Excellent' },
+      { grade: 3, name: 'Very Good' },
+      { grade: 2, name: 'Good' },
+      { grade: 1, name: 'Poor' }
+    ]
+  }
+};
+
+export const DEFAULT_GRADING_CONFIG: GradingConfig = {
+  scale: 'psa',
+  groupCategories: {
+    edges_corners: 'edges',
+    surface: 'surface',
+    structural: 'structural',
+    other: 'surface'
+  },
+  fallbackCategory: 'surface',
+  cornerLabels: ['corner_wear', 'soft_corner'],
+  cornerZone: 0.12,
+  severity: {
+    whitening: 0.8,
+    corner_wear: 1.2,
+    soft_corner: 1.5,
+    chipping: 1.2,
+    wear_and_impact: 1.5,
+    scratch: 1.2,
+    print_line: 0.8,
+    refractor_line: 0.6,
+    dirt: 0.4,
+    spot: 0.6,
+    dimple: 1.5,
+    pit: 1.2,
+    stain: 1.5,
+    wax_stain: 1,
+    wear_and_stain: 1.5,
+    crease: 4,
+    bend: 3,
+    dent: 2.5,
+    impression: 2,
+    crack: 4,
+    tear: 5,
+    hole: 6,
+    water_damage: 5,
+    deformation: 4,
+    impact: 2.5,
+    corrosion: 3,
+    damage: 5
+  },
+  defaultSeverity: 1,
+  countPenalty: 0.5,
+  areaPenalty: 1,
+  categoryWeights: { corners: 1, edges: 1, surface: 1, structural: 1.5 },
+  maxOverallAboveLowest: 1
+};
+
+export interface SubgradeResult {
+  category: GradeCategory;
+  defects: number;
+  penalty: number;
+  score: number; // Unrounded, 1-10
+  grade: number; // On the scale
+}
+
+export interface GradeResult {
+  scale: GradingScale;
+  subgrades: Record<GradeCategory, SubgradeResult>;
+  overall: number;
+  overallName: string;
+}
+
+// A defect is on a corner when its center lies in one of the four corner
+// zones. The image is assumed to be cropped to the card.
+const isInCornerZone = (ann: Annotation, imageSize: ImageSize, zone: number): boolean => {
+  const b = getAnnotationBounds(ann);
+  const nearX = b.centerX <= imageSize.width * zone || b.centerX >= imageSize.width * (1 - zone);
+  const nearY = b.centerY <= imageSize.height * zone || b.centerY >= imageSize.height * (1 - zone);
+  return nearX && nearY;
+};
+
+export const getDefectCategory = (ann: Annotation, imageSize: ImageSize, config: GradingConfig): GradeCategory => {
+  if (config.cornerLabels.includes(ann.label)) return 'corners';
+  const groupId = getLabelGroupId(ann.label);
+  const category = (groupId && config.groupCategories[groupId]) || config.fallbackCategory;
+  // Edge-type wear that sits on a corner counts against the corners
+  if (category === 'edges' && isInCornerZone(ann, imageSize, config.cornerZone)) return 'corners';
+  return category;
+};
+
+export const getDefectPenalty = (ann: Annotation, imageSize: ImageSize, config: GradingConfig): number => {
+  const severity = config.severity[ann.label] ?? config.defaultSeverity;
+  return severity * (config.countPenalty + config.areaPenalty * getAnnotationAreaPercentage(ann, imageSize));
+};
+
+// Grading services round down: a card that is almost a 9 is an 8
+const snapToScale = (value: number, scale: GradingScale): number => {
+  const snapped = Math.floor(value / scale.step + 1e-9) * scale.step;
+  return Math.max(scale.min, Math.min(scale.max, snapped));
+};
+
+export const getGradeName = (grade: number, scale: GradingScale): string => {
+  return scale.labels.find(l => grade >= l.grade)?.name ?? scale.labels[scale.labels.length - 1].name;
+};
+
+export const computeGrade = (annotations: Annotation[], imageSize: ImageSize, config: GradingConfig): GradeResult => {
+  const scale = GRADING_SCALES[config.scale] || GRADING_SCALES.psa;
+  const penalties: Record<GradeCategory, { defects: number; penalty: number }> = {
+    corners: { defects: 0, penalty: 0 },
+    edges: { defects: 0, penalty: 0 },
+    surface: { defects: 0, penalty: 0 },
+    structural: { defects: 0, penalty: 0 }
+  };
+
+  if (imageSize.width > 0 && imageSize.height > 0) {
+    annotations.forEach(ann => {
+      const entry = penalties[getDefectCategory(ann, imageSize, config)];
+      entry.defects++;
+      entry.penalty += getDefectPenalty(ann, imageSize, config);
+    });
+  }
+
+  const subgrades = Object.fromEntries(GRADE_CATEGORIES.map(category => {
+    const { defects, penalty } = penalties[category];
+    const score = Math.max(scale.min, scale.max - penalty);
+    return [category, { category, defects, penalty, score, grade: snapToScale(score, scale) }];
+  })) as Record<GradeCategory, SubgradeResult>;
+
+  const totalWeight = GRADE_CATEGORIES.reduce((sum, c) => sum + (config.categoryWeights[c] ?? 0), 0);
+  const weighted = totalWeight > 0
+    ? GRADE_CATEGORIES.reduce((sum, c) => sum + subgrades[c].score * (config.categoryWeights[c] ?? 0), 0) / totalWeight
+    : Math.min(...GRADE_CATEGORIES.map(c => subgrades[c].score));
+  const lowest = Math.min(...GRADE_CATEGORIES.map(c => subgrades[c].score));
+  const overall = snapToScale(Math.min(weighted, lowest + config.maxOverallAboveLowest), scale);
+
+  return { scale, subgrades, overall, overallName: getGradeName(overall, scale) };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Parses rules edited as JSON; missing keys keep their defaults
+export const parseGradingConfig = (text: string): GradingConfig => {
+  let raw: Partial<GradingConfig>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('规则不是有效的 JSON (Invalid JSON)');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('规则必须是 JSON 对象 (Rules must be a JSON object)');
+  }
+
+  const config: GradingConfig = {
+    ...DEFAULT_GRADING_CONFIG,
+    ...raw,
+    groupCategories: { ...DEFAULT_GRADING_CONFIG.groupCategories, ...raw.groupCategories },
+    categoryWeights: { ...DEFAULT_GRADING_CONFIG.categoryWeights, ...raw.categoryWeights },
+    severity: raw.severity ?? DEFAULT_GRADING_CONFIG.severity
+  };
+
+  if (!GRADING_SCALES[config.scale]) {
+    throw new Error(`未知的评级标准: ${config.scale} (Unknown scale)`);
+  }
+  const categories = [...Object.values(config.groupCategories), config.fallbackCategory];
+  const badCategory = categories.find(c => !GRADE_CATEGORIES.includes(c));
+  if (badCategory) {
+    throw new Error(`未知的评分类别: ${badCategory} (Unknown category)`);
+  }
+  const numbers = [
+    config.cornerZone, config.defaultSeverity, config.countPenalty, config.areaPenalty, config.maxOverallAboveLowest,
+    ...Object.values(config.severity), ...Object.values(config.categoryWeights)
+  ];
+  if (!numbers.every(n => isFiniteNumber(n) && n >= 0)) {
+    throw new Error('数值必须为非负数 (All numbers must be non-negative)');
+  }
+  if (!Array.isArray(config.cornerLabels)) {
+    throw new Error('cornerLabels 必须是数组 (cornerLabels must be an array)');
+  }
+  return config;
+};
@@ -0,0 +1,134 @@
+import { ImageFilters } from '../types';
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`无法加载图片 (Failed to load image)`));
+    img.src = src;
+  });
+};
+
+// CSS filter string shared by the canvas view and rendered exports
+export const getImageFilterCss = (filters: ImageFilters): string => {
+  return `brightness(${filters.brightness}%) contrast(${filters.contrast}%) saturate(${filters.saturation}%)`;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('图片编码失败 (Failed to encode image)'));
+    }, mimeType, quality);
+  });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export interface ParsedDataUrl {
+  mimeType: string;
+  data: string; // Base64 payload without the header
+}
+
+// Leading base64 characters of the common image signatures, for data URLs
+// that arrive without (or with a generic) mime type
+const BASE64_SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif']
+];
+
+export const parseDataUrl = (dataUrl: string): ParsedDataUrl => {
+  const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  const data = match ? match[3] : dataUrl;
+  const declared = match?.[1];
+  if (declared && declared !== 'application/octet-stream') return { mimeType: declared, data };
+  const sniffed = BASE64_SIGNATURES.find(([prefix]) => data.startsWith(prefix));
+  return { mimeType: sniffed ? sniffed[1] : 'application/octet-stream', data };
+};
+
+export interface ScaledImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  scale: number; // Sent size / original size (1 when untouched)
+}
+
+// Formats every browser can encode back from a canvas
+const CANVAS_FORMATS = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Shrinks an image so its longer side is at most `maxDimension`, keeping the
+// aspect ratio; relative (0-1) coordinates therefore hold for both sizes.
+export const downscaleDataUrl = async (dataUrl: string, maxDimension: number): Promise<ScaledImage> => {
+  const img = await loadImageElement(dataUrl);
+  const longest = Math.max(img.width, img.height);
+  if (!maxDimension || longest <= maxDimension) {
+    return { dataUrl, width: img.width, height: img.height, scale: 1 };
+  }
+
+  const scale = maxDimension / longest;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('浏览器不支持 Canvas (Canvas is not supported)');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const { mimeType } = parseDataUrl(dataUrl);
+  const blob = await canvasToBlob(canvas, CANVAS_FORMATS.includes(mimeType) ? mimeType : 'image/png', 0.92);
+  return { dataUrl: await blobToDataUrl(blob), width: canvas.width, height: canvas.height, scale };
+};
+
+// Cuts a region (in image pixels) out of a loaded image at full resolution
+export const cropImageToDataUrl = async (
+  img: HTMLImageElement,
+  region: { x: number; y: number; width: number; height: number },
+  mimeType: string
+): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width));
+  canvas.height = Math.max(1, Math.round(region.height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('浏览器不支持 Canvas (Canvas is not supported)');
+  ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+
+  const blob = await canvasToBlob(canvas, CANVAS_FORMATS.includes(mimeType) ? mimeType : 'image/png', 0.92);
+  return blobToDataUrl(blob);
+};
+
+export interface AnalysisImage {
+  data: Uint8ClampedArray; // RGBA
+  width: number;
+  height: number;
+  scale: number; // Analysis size / image size
+}
+
+// Pixels of an image capped at `maxDimension`, for tools that inspect colours
+export const loadAnalysisImage = async (imageSrc: string, maxDimension: number): Promise<AnalysisImage> => {
+  const img = await loadImageElement(imageSrc);
+  const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('浏览器不支持 Canvas (Canvas is not supported)');
+  ctx.drawImage(img, 0, 0, width, height);
+  try {
+    return { data: ctx.getImageData(0, 0, width, height).data, width, height, scale };
+  } catch {
+    // A canvas tainted by a cross-origin image cannot be read back
+    throw new Error('无法读取图片像素 (Cannot read image pixels)');
+  }
+};
@@ -0,0 +1,77 @@
+import { Annotation, ImageSize, ImportResult } from '../types';
+import { parseLabelMe } from './labelme';
+import { isCocoDataset, parseCoco } from './coco';
+import { parseYolo } from './yolo';
+import { isVocDocument, parseVoc } from './voc';
+import { isDotaDocument, parseDota } from './dota';
+import { readFileAsText } from './download';
+import { assertSameImageSize } from './annotation';
+
+interface ImportTarget {
+  fileName: string | null;
+  imageSize: ImageSize;
+  projectImages: { fileName: string; imageSize: ImageSize | null }[];
+}
+
+const importCoco = (text: string, target: ImportTarget): ImportResult => {
+  const { entries, orphaned } = parseCoco(text);
+  // A single-image dataset applies to the current image whatever its name
+  if (entries.length === 1) {
+    assertSameImageSize(entries[0].imageSize, target.imageSize);
+    return { annotations: entries[0].annotations, skipped: entries[0].skipped + orphaned };
+  }
+
+  // Otherwise each dataset image goes to the project image of the same name
+  const images = new Map<string, Annotation[]>();
+  let skipped = orphaned;
+  let unmatchedImages = 0;
+  entries.forEach(entry => {
+    const name = entry.fileName?.split('/').pop();
+    const image = name ? target.projectImages.find(img => img.fileName === name) : undefined;
+    if (!image) {
+      unmatchedImages++;
+      return;
+    }
+    const size = image.fileName === target.fileName ? target.imageSize : image.imageSize;
+    if (size) assertSameImageSize(entry.imageSize, size);
+    images.set(image.fileName, entry.annotations);
+    skipped += entry.skipped;
+  });
+
+  if (images.size === 0) {
+    throw new Error('COCO 文件中找不到项目中的任何图片 (None of the project images are in the COCO dataset)');
+  }
+  return {
+    annotations: (target.fileName && images.get(target.fileName)) || [],
+    skipped,
+    images,
+    unmatchedImages
+  };
+};
+
+// Picks the parser from the file contents, so one "import" button handles every format
+export const importAnnotationFile = async (file: File, target: ImportTarget): Promise<ImportResult> => {
+  const text = await readFileAsText(file);
+
+  let json: unknown = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Not JSON; handled below
+  }
+
+  if (json !== null) {
+    if (isCocoDataset(json)) return importCoco(text, target);
+    return parseLabelMe(text, target.imageSize);
+  }
+
+  if (file.name.toLowerCase().endsWith('.xml') || isVocDocument(text)) {
+    return parseVoc(text, target.imageSize);
+  }
+
+  if (file.name.toLowerCase().endsWith('.txt')) {
+    return isDotaDocument(text) ? parseDota(text, target.imageSize) : parseYolo(text, target.imageSize);
+  }
+
+  throw new Error(`不支持的文件格式: ${file.name} (Unsupported annotation file)`);
+};
@@ -1,5 +1,11 @@
 import { KeyBinding } from '../types';
 
+// Keys typed into form fields belong to the field, not to the shortcuts
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable;
+};
+
 export const isShortcutPressed = (e: KeyboardEvent, binding: KeyBinding): boolean => {
   if (!binding) return false;
 
@@ -0,0 +1,173 @@
+import { Annotation, ImageSize, Point, ImportResult, CenteringMeasurement } from '../types';
+import { createAnnotation, assertSameImageSize } from './annotation';
+import { serializeCentering, CenteringRecord } from './centering';
+import { getAnnotationOutline, getPointsBounds, getRotatedBox, isRectangleCorners } from './geometry';
+
+// --- LabelMe JSON ---
+// Mirrors the document written by the original LabelMe tool, so files can be
+// exchanged with it in both directions.
+
+export interface LabelMeShape {
+  label: string;
+  points: [number, number][];
+  group_id: number | null;
+  shape_type: string;
+  flags: Record<string, boolean>;
+  description?: string;
+  locked?: boolean;
+  visible?: boolean;
+  stroke_width?: number; // Our extension for linestrips; ignored by LabelMe itself
+  rotated_box?: LabelMeRotatedBox; // Our extension for rotated rectangles
+  holes?: [number, number][][]; // Our extension: inner rings of a polygon
+}
+
+// Center, size and clockwise angle in degrees, as used by oriented-box tools
+export interface LabelMeRotatedBox {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+const toRotatedBoxRecord = (a: Annotation): LabelMeRotatedBox => {
+  const box = getRotatedBox(a.points);
+  return { cx: box.centerX, cy: box.centerY, width: box.width, height: box.height, angle: box.angle * 180 / Math.PI };
+};
+
+export interface LabelMeDocument {
+  version: string;
+  flags?: Record<string, boolean>;
+  shapes: LabelMeShape[];
+  imagePath?: string;
+  imageName?: string | null;
+  imageData?: string | null;
+  imageHeight: number;
+  imageWidth: number;
+  centering?: CenteringRecord; // Our extension; ignored by LabelMe itself
+}
+
+export const serializeLabelMe = (
+  annotations: Annotation[],
+  imageSize: ImageSize,
+  fileName: string | null,
+  centering: CenteringMeasurement | null = null
+): LabelMeDocument => {
+  return {
+    version: "1.0",
+    imageHeight: imageSize.height,
+    imageWidth: imageSize.width,
+    imageName: fileName,
+    shapes: annotations.map(a => ({
+      label: a.label,
+      // LabelMe has no ellipse; it travels as its sampled outline, flagged so
+      // we can restore it on import
+      points: (a.type === 'ellipse' ? getAnnotationOutline(a) : a.points).map(p => [p.x, p.y] as [number, number]),
+      group_id: null,
+      // LabelMe calls an open polyline a linestrip; rotated rectangles are
+      // plain 4-point polygons to it
+      shape_type: a.type === 'polyline' ? 'linestrip' : a.type === 'ellipse' || a.type === 'rotated_rect' ? 'polygon' : a.type,
+      flags: {
+        ...(a.needsReview ? { needs_review: true } : {}),
+        ...(a.type === 'ellipse' ? { ellipse: true } : {}),
+        ...(a.type === 'rotated_rect' ? { rotated_rect: true } : {})
+      },
+      locked: a.locked,
+      ...(a.type === 'polyline' && a.strokeWidth !== undefined ? { stroke_width: a.strokeWidth } : {}),
+      ...(a.type === 'rotated_rect' ? { rotated_box: toRotatedBoxRecord(a) } : {}),
+      ...(a.holes?.length ? { holes: a.holes.map(hole => hole.map(p => [p.x, p.y] as [number, number])) } : {})
+    })),
+    ...(centering ? { centering: serializeCentering(centering) } : {})
+  };
+};
+
+const toPoints = (raw: unknown): Point[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const points: Point[] = [];
+  for (const p of raw) {
+    if (!Array.isArray(p) || p.length < 2) return null;
+    const x = Number(p[0]);
+    const y = Number(p[1]);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+    points.push({ x, y });
+  }
+  return points;
+};
+
+const clampToImage = (p: Point, imageSize: ImageSize): Point => ({
+  x: Math.max(0, Math.min(p.x, imageSize.width)),
+  y: Math.max(0, Math.min(p.y, imageSize.height))
+});
+
+export const parseLabelMe = (text: string, imageSize: ImageSize): ImportResult => {
+  let doc: Partial<LabelMeDocument>;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON (Invalid JSON file)');
+  }
+
+  if (!doc || typeof doc !== 'object' || !Array.isArray(doc.shapes)) {
+    throw new Error('缺少 shapes 字段，不是 LabelMe 格式 (Not a LabelMe document: missing "shapes")');
+  }
+
+  // LabelMe always records the size of the image it was drawn on; refuse to
+  // project coordinates onto a different image.
+  if (typeof doc.imageWidth === 'number' && typeof doc.imageHeight === 'number') {
+    assertSameImageSize({ width: doc.imageWidth, height: doc.imageHeight }, imageSize);
+  }
+
+  const annotations: Annotation[] = [];
+  let skipped = 0;
+
+  for (const shape of doc.shapes) {
+    const points = toPoints(shape?.points);
+    const label = typeof shape?.label === 'string' && shape.label ? shape.label : null;
+    if (!points || !label) {
+      skipped++;
+      continue;
+    }
+
+    const clamped = points.map(p => clampToImage(p, imageSize));
+    let ann: Annotation | null = null;
+
+    if (shape.shape_type === 'rectangle' && clamped.length >= 2) {
+      ann = createAnnotation(label, 'rectangle', clamped.slice(0, 2));
+    } else if (shape.shape_type === 'polygon' && shape.flags?.ellipse && clamped.length >= 3) {
+      const b = getPointsBounds(clamped);
+      ann = createAnnotation(label, 'ellipse', [{ x: b.minX, y: b.minY }, { x: b.maxX, y: b.maxY }]);
+    } else if (shape.shape_type === 'polygon' && shape.flags?.rotated_rect && isRectangleCorners(points)) {
+      // Clamping would skew a box that pokes out of the image
+      ann = createAnnotation(label, 'rotated_rect', points);
+    } else if ((shape.shape_type === 'polygon' || shape.shape_type == null) && clamped.length >= 3) {
+      ann = createAnnotation(label, 'polygon', clamped);
+      const holes = Array.isArray(shape.holes)
+        ? shape.holes.map(toPoints).filter((hole): hole is Point[] => !!hole && hole.length >= 3)
+        : [];
+      if (holes.length > 0) ann.holes = holes.map(hole => hole.map(p => clampToImage(p, imageSize)));
+    } else if (shape.shape_type === 'point' && clamped.length >= 1) {
+      ann = createAnnotation(label, 'point', clamped.slice(0, 1));
+    } else if (shape.shape_type === 'circle' && clamped.length >= 2) {
+      // Center and a point on the rim; the rim point may lie outside the image
+      ann = createAnnotation(label, 'circle', [clamped[0], points[1]]);
+    } else if ((shape.shape_type === 'linestrip' || shape.shape_type === 'line') && clamped.length >= 2) {
+      ann = createAnnotation(label, 'polyline', clamped);
+      const width = Number(shape.stroke_width);
+      if (shape.stroke_width !== undefined && Number.isFinite(width) && width > 0) ann.strokeWidth = width;
+    }
+
+    if (!ann) {
+      skipped++;
+      continue;
+    }
+
+    annotations.push({
+      ...ann,
+      locked: !!shape.locked,
+      visible: shape.visible !== false,
+      ...(shape.flags?.needs_review ? { needsReview: true } : {})
+    });
+  }
+
+  return { annotations, skipped };
+};
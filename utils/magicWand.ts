@@ -0,0 +1,75 @@
+import { Point } from '../types';
+import { loadAnalysisImage, AnalysisImage } from './image';
+import { simplifyPolygon } from './geometry';
+import { labelComponents, traceBoundary } from './contour';
+
+// --- Magic wand ---
+// Flood fill from a clicked pixel, combine regions into a mask and trace the
+// mask's outline into a polygon. Works on a copy of the image capped at
+// WAND_MAX_DIMENSION so huge scans stay responsive; the outline is scaled
+// back to image pixels at the end.
+
+export const WAND_MAX_DIMENSION = 2048;
+
+export type WandMode = 'replace' | 'add' | 'subtract';
+
+export const loadWandImage = (imageSrc: string): Promise<AnalysisImage> => loadAnalysisImage(imageSrc, WAND_MAX_DIMENSION);
+
+// 4-connected fill of every pixel whose channels all lie within `tolerance`
+// (0-255) of the seed colour. `seed` is in image pixels.
+export const floodFill = (img: AnalysisImage, seed: Point, tolerance: number): Uint8Array => {
+  const { data, width, height } = img;
+  const mask = new Uint8Array(width * height);
+  const sx = Math.floor(seed.x * img.scale);
+  const sy = Math.floor(seed.y * img.scale);
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) return mask;
+
+  const s = (sy * width + sx) * 4;
+  const [r, g, b] = [data[s], data[s + 1], data[s + 2]];
+  const matches = (i: number) => {
+    const o = i * 4;
+    return Math.abs(data[o] - r) <= tolerance
+      && Math.abs(data[o + 1] - g) <= tolerance
+      && Math.abs(data[o + 2] - b) <= tolerance;
+  };
+
+  // Scanline fill: fill a whole run, then queue the rows above and below
+  const stack = [sy * width + sx];
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    if (mask[i]) continue;
+    const y = Math.floor(i / width);
+    let left = i;
+    while (left % width > 0 && !mask[left - 1] && matches(left - 1)) left--;
+    let right = i;
+    while (right % width < width - 1 && !mask[right + 1] && matches(right + 1)) right++;
+    for (let j = left; j <= right; j++) {
+      mask[j] = 1;
+      if (y > 0 && !mask[j - width] && matches(j - width)) stack.push(j - width);
+      if (y < height - 1 && !mask[j + width] && matches(j + width)) stack.push(j + width);
+    }
+  }
+  return mask;
+};
+
+export const combineMasks = (base: Uint8Array | null, region: Uint8Array, mode: WandMode): Uint8Array => {
+  if (!base || mode === 'replace') return region;
+  const result = new Uint8Array(base.length);
+  for (let i = 0; i < base.length; i++) {
+    result[i] = mode === 'add' ? (base[i] | region[i]) : (base[i] & (region[i] ^ 1));
+  }
+  return result;
+};
+
+// Outline of the largest region in the mask as an image-space polygon,
+// simplified to within `tolerance` analysis pixels. Empty when nothing is left.
+export const maskToPolygon = (img: AnalysisImage, mask: Uint8Array, tolerance = 1): Point[] => {
+  // Holes are not traced: annotations drawn with the wand are single rings
+  const { labels, count, sizes, starts } = labelComponents(mask, img.width, img.height);
+  if (count === 0) return [];
+  let largest = 1;
+  for (let i = 2; i <= count; i++) if (sizes[i] > sizes[largest]) largest = i;
+  const outline = simplifyPolygon(traceBoundary(img.width, img.height, starts[largest], i => labels[i] === largest), tolerance);
+  if (outline.length < 3) return [];
+  return outline.map(p => ({ x: p.x / img.scale, y: p.y / img.scale }));
+};
@@ -0,0 +1,138 @@
+import { Annotation, ImageSize, Point } from '../types';
+import { getOrderedLabelKeys, getLabelColor, getLabelName } from '../constants';
+import { getAnnotationOutline, getStrokePolygons, getStrokeWidth } from './geometry';
+import { encodeIndexedPng, encodeGray16Png } from './png';
+
+// --- Segmentation masks ---
+// Semantic mask: palette PNG, one class index per pixel (0 = background).
+// Instance mask: 16-bit grayscale PNG, one id per annotation (0 = background).
+// Annotations later in the list are drawn on top, matching the canvas.
+
+export const BACKGROUND_LABEL = '_background_';
+
+export interface MaskClass {
+  index: number;
+  label: string;
+  name: string;
+  color: string;
+}
+
+export interface MaskInstance {
+  id: number;
+  annotationId: string;
+  label: string;
+  classIndex: number;
+}
+
+export interface MaskSidecar {
+  imageName: string | null;
+  width: number;
+  height: number;
+  classes: MaskClass[];
+  instances: MaskInstance[];
+}
+
+export interface MaskExport {
+  semantic: Blob;
+  instance: Blob;
+  sidecar: MaskSidecar;
+}
+
+const MAX_CLASSES = 256; // Palette PNG limit, background included
+const MAX_INSTANCES = 65535; // 16-bit instance ids
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+// Taxonomy order keeps indices stable between images; unknown labels follow
+export const buildMaskClasses = (annotations: Annotation[]): MaskClass[] => {
+  const labels = getOrderedLabelKeys();
+  annotations.forEach(a => {
+    if (!labels.includes(a.label)) labels.push(a.label);
+  });
+  if (labels.length + 1 > MAX_CLASSES) {
+    throw new Error(`类别过多，无法写入调色板 PNG (Too many classes: ${labels.length})`);
+  }
+  return [
+    { index: 0, label: BACKGROUND_LABEL, name: BACKGROUND_LABEL, color: '#000000' },
+    ...labels.map((label, i) => ({ index: i + 1, label, name: getLabelName(label), color: getLabelColor(label) }))
+  ];
+};
+
+// Scanline fill (even-odd rule), sampling at pixel centers. `visit` receives
+// each covered run as [x0, x1) on row y.
+export const rasterizePolygon = (
+  points: Point[],
+  width: number,
+  height: number,
+  visit: (y: number, x0: number, x1: number) => void
+) => {
+  if (points.length < 3) return;
+  const ys = points.map(p => p.y);
+  const yStart = Math.max(0, Math.floor(Math.min(...ys)));
+  const yEnd = Math.min(height - 1, Math.ceil(Math.max(...ys)));
+
+  for (let y = yStart; y <= yEnd; y++) {
+    const sampleY = y + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      if ((a.y <= sampleY && b.y > sampleY) || (b.y <= sampleY && a.y > sampleY)) {
+        crossings.push(a.x + ((sampleY - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      // Pixel x is covered when its center x + 0.5 lies inside the span
+      const x0 = Math.max(0, Math.ceil(crossings[i] - 0.5));
+      const x1 = Math.min(width, Math.ceil(crossings[i + 1] - 0.5));
+      if (x1 > x0) visit(y, x0, x1);
+    }
+  }
+};
+
+export const renderMasks = async (
+  annotations: Annotation[],
+  imageSize: ImageSize,
+  imageName: string | null
+): Promise<MaskExport> => {
+  const { width, height } = imageSize;
+  if (annotations.length > MAX_INSTANCES) {
+    throw new Error(`标注过多，无法写入 16 位实例图 (Too many instances: ${annotations.length})`);
+  }
+  const classes = buildMaskClasses(annotations);
+  const classIndex = new Map(classes.map(c => [c.label, c.index]));
+
+  const semantic = new Uint8Array(width * height);
+  const instance = new Uint16Array(width * height);
+  const instances: MaskInstance[] = [];
+
+  annotations.forEach((ann, i) => {
+    const id = i + 1;
+    const cls = classIndex.get(ann.label)!;
+    instances.push({ id, annotationId: ann.id, label: ann.label, classIndex: cls });
+    // Stroke pieces overlap, so each is filled on its own rather than as
+    // one even-odd outline
+    const polygons = ann.type === 'polyline'
+      ? getStrokePolygons(ann.points, getStrokeWidth(ann))
+      : [getAnnotationOutline(ann)];
+    polygons.forEach(polygon => rasterizePolygon(polygon, width, height, (y, x0, x1) => {
+      semantic.fill(cls, y * width + x0, y * width + x1);
+      instance.fill(id, y * width + x0, y * width + x1);
+    }));
+  });
+
+  const [semanticPng, instancePng] = await Promise.all([
+    encodeIndexedPng(width, height, semantic, classes.map(c => hexToRgb(c.color))),
+    encodeGray16Png(width, height, instance)
+  ]);
+
+  return {
+    semantic: semanticPng,
+    instance: instancePng,
+    sidecar: { imageName, width, height, classes, instances }
+  };
+};
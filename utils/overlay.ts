@@ -0,0 +1,190 @@
+import { Annotation, ImageFilters, ImageSize } from '../types';
+import { getLabelName } from '../constants';
+import { getAnnotationBounds, getStrokeWidth } from './geometry';
+import { loadImageElement, getImageFilterCss, canvasToBlob } from './image';
+
+// Renders the image with its annotations burned in, at native resolution, for
+// grading reports. Styling follows CanvasArea: label color fill at the current
+// opacity, label color stroke (amber and dashed when locked).
+
+export interface OverlayRenderOptions {
+  fillOpacity: number;
+  filters: ImageFilters | null; // Null renders the untouched original
+  includeLegend: boolean;
+  mimeType: 'image/png' | 'image/jpeg';
+  quality?: number; // JPEG only
+}
+
+const LOCKED_STROKE = '#fbbf24';
+const LOCKED_OPACITY = 0.7;
+const FONT_FAMILY = 'system-ui, -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif';
+
+// Annotation strokes in the editor are a fixed 4 screen pixels; on a full
+// resolution export they need to grow with the image to stay legible.
+const getLineWidth = (imageSize: ImageSize) => Math.max(2, Math.round(Math.max(imageSize.width, imageSize.height) / 500));
+
+const traceShape = (ctx: CanvasRenderingContext2D, ann: Annotation) => {
+  ctx.beginPath();
+  if (ann.type === 'rectangle') {
+    const b = getAnnotationBounds(ann);
+    ctx.rect(b.minX, b.minY, b.width, b.height);
+    return;
+  }
+  if (ann.type === 'circle' || ann.type === 'ellipse') {
+    const b = getAnnotationBounds(ann);
+    ctx.ellipse(b.centerX, b.centerY, b.width / 2, b.height / 2, 0, 0, Math.PI * 2);
+    return;
+  }
+  [ann.points, ...(ann.holes ?? [])].forEach(ring => {
+    ring.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    if (ann.type !== 'polyline') ctx.closePath();
+  });
+};
+
+const drawAnnotation = (ctx: CanvasRenderingContext2D, ann: Annotation, fillOpacity: number, lineWidth: number) => {
+  ctx.save();
+  ctx.globalAlpha = ann.locked ? LOCKED_OPACITY : 1;
+  if (ann.type === 'point') {
+    // A solid dot, sized like the strokes so it stays visible at full resolution
+    ctx.beginPath();
+    ctx.arc(ann.points[0].x, ann.points[0].y, lineWidth * 2, 0, Math.PI * 2);
+    ctx.fillStyle = ann.color;
+    ctx.fill();
+    ctx.strokeStyle = ann.locked ? LOCKED_STROKE : 'white';
+    ctx.lineWidth = lineWidth / 2;
+    ctx.stroke();
+    ctx.restore();
+    return;
+  }
+  traceShape(ctx, ann);
+
+  ctx.globalAlpha *= fillOpacity;
+  if (ann.type === 'polyline') {
+    // The defect itself, at its real width, stands in for the fill
+    ctx.strokeStyle = ann.color;
+    ctx.lineWidth = getStrokeWidth(ann);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = ann.color;
+    ctx.fill(ann.holes?.length ? 'evenodd' : 'nonzero');
+  }
+
+  ctx.globalAlpha = ann.locked ? LOCKED_OPACITY : 1;
+  ctx.strokeStyle = ann.locked ? LOCKED_STROKE : ann.color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineJoin = 'round';
+  ctx.setLineDash(ann.locked ? [lineWidth * 4, lineWidth * 2] : []);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, ann: Annotation, fontSize: number, imageSize: ImageSize) => {
+  const text = getLabelName(ann.label);
+  const b = getAnnotationBounds(ann);
+  const padding = Math.round(fontSize * 0.3);
+
+  ctx.save();
+  ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+  const boxWidth = ctx.measureText(text).width + padding * 2;
+  const boxHeight = fontSize + padding * 2;
+
+  // Sit above the shape, or inside its top edge when there is no room
+  const x = Math.max(0, Math.min(b.minX, imageSize.width - boxWidth));
+  const y = b.minY - boxHeight >= 0 ? b.minY - boxHeight : b.minY;
+
+  ctx.fillStyle = ann.color;
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  ctx.fillText(text, x + padding, y + padding);
+  ctx.restore();
+};
+
+interface LegendRow {
+  label: string;
+  color: string;
+  count: number;
+}
+
+const getLegendRows = (annotations: Annotation[]): LegendRow[] => {
+  const rows = new Map<string, LegendRow>();
+  annotations.forEach(ann => {
+    const row = rows.get(ann.label);
+    if (row) row.count++;
+    else rows.set(ann.label, { label: ann.label, color: ann.color, count: 1 });
+  });
+  return Array.from(rows.values()).sort((a, b) => b.count - a.count);
+};
+
+// Lays the legend out in as many columns as fit the image width
+const measureLegend = (ctx: CanvasRenderingContext2D, rows: LegendRow[], fontSize: number, width: number) => {
+  ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+  const swatch = fontSize;
+  const gap = fontSize;
+  const rowHeight = Math.round(fontSize * 1.6);
+  const columnWidth = Math.max(...rows.map(r => ctx.measureText(`${getLabelName(r.label)}  ×${r.count}`).width)) + swatch + gap * 2;
+  const columns = Math.max(1, Math.floor((width - gap) / columnWidth));
+  const rowCount = Math.ceil(rows.length / columns);
+  const titleHeight = Math.round(fontSize * 2);
+  return { swatch, gap, rowHeight, columnWidth, columns, titleHeight, height: titleHeight + rowCount * rowHeight + gap };
+};
+
+export const renderAnnotatedImage = async (
+  imageSrc: string,
+  imageSize: ImageSize,
+  annotations: Annotation[],
+  options: OverlayRenderOptions
+): Promise<Blob> => {
+  const img = await loadImageElement(imageSrc);
+  const visible = annotations.filter(a => a.visible);
+  const lineWidth = getLineWidth(imageSize);
+  const fontSize = lineWidth * 6;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('浏览器不支持 Canvas (Canvas is not supported)');
+
+  const legendRows = options.includeLegend ? getLegendRows(visible) : [];
+  const legend = legendRows.length > 0 ? measureLegend(ctx, legendRows, fontSize, imageSize.width) : null;
+
+  canvas.width = imageSize.width;
+  canvas.height = imageSize.height + (legend ? legend.height : 0);
+
+  // JPEG has no alpha; give the legend band a solid background either way
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.save();
+  if (options.filters) ctx.filter = getImageFilterCss(options.filters);
+  ctx.drawImage(img, 0, 0, imageSize.width, imageSize.height);
+  ctx.restore();
+
+  visible.forEach(ann => drawAnnotation(ctx, ann, options.fillOpacity, lineWidth));
+  visible.forEach(ann => drawCaption(ctx, ann, fontSize, imageSize));
+
+  if (legend) {
+    const top = imageSize.height;
+    ctx.save();
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+    ctx.fillText(`图例 (Legend) - ${visible.length}`, legend.gap, top + legend.titleHeight / 2);
+
+    ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+    legendRows.forEach((row, i) => {
+      const col = i % legend.columns;
+      const line = Math.floor(i / legend.columns);
+      const x = legend.gap + col * legend.columnWidth;
+      const y = top + legend.titleHeight + line * legend.rowHeight + legend.rowHeight / 2;
+      ctx.fillStyle = row.color;
+      ctx.fillRect(x, y - legend.swatch / 2, legend.swatch, legend.swatch);
+      ctx.fillStyle = '#e5e7eb';
+      ctx.fillText(`${getLabelName(row.label)}  ×${row.count}`, x + legend.swatch + legend.gap / 2, y);
+    });
+    ctx.restore();
+  }
+
+  return canvasToBlob(canvas, options.mimeType, options.quality);
+};
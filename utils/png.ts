@@ -0,0 +1,95 @@
+// Minimal PNG encoder for label masks. Canvas can only produce 8-bit RGBA with
+// antialiased edges, which corrupts class/instance ids; masks need exact
+// palette-indexed and 16-bit grayscale images instead.
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const COLOR_TYPE_GRAYSCALE = 0;
+const COLOR_TYPE_INDEXED = 3;
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// CompressionStream's "deflate" is the zlib format PNG expects
+const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const encodePng = async (
+  width: number,
+  height: number,
+  bitDepth: 8 | 16,
+  colorType: number,
+  rows: Uint8Array, // Raw scanlines without filter bytes
+  palette?: Uint8Array
+): Promise<Blob> => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  // Compression, filter and interlace methods are all 0
+
+  const rowBytes = rows.length / height;
+  const filtered = new Uint8Array(height * (rowBytes + 1));
+  for (let y = 0; y < height; y++) {
+    filtered[y * (rowBytes + 1)] = 0; // Filter type "None"
+    filtered.set(rows.subarray(y * rowBytes, (y + 1) * rowBytes), y * (rowBytes + 1) + 1);
+  }
+
+  const chunks = [
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    ...(palette ? [createChunk('PLTE', palette)] : []),
+    createChunk('IDAT', await zlibCompress(filtered)),
+    createChunk('IEND', new Uint8Array(0))
+  ];
+  return new Blob(chunks, { type: 'image/png' });
+};
+
+// `palette` holds [r, g, b] per index; at most 256 entries
+export const encodeIndexedPng = (
+  width: number,
+  height: number,
+  indices: Uint8Array,
+  palette: [number, number, number][]
+): Promise<Blob> => {
+  const plte = new Uint8Array(palette.length * 3);
+  palette.forEach(([r, g, b], i) => plte.set([r, g, b], i * 3));
+  return encodePng(width, height, 8, COLOR_TYPE_INDEXED, indices, plte);
+};
+
+export const encodeGray16Png = (width: number, height: number, values: Uint16Array): Promise<Blob> => {
+  // PNG stores 16-bit samples big-endian
+  const bytes = new Uint8Array(values.length * 2);
+  for (let i = 0; i < values.length; i++) {
+    bytes[i * 2] = values[i] >> 8;
+    bytes[i * 2 + 1] = values[i] & 0xff;
+  }
+  return encodePng(width, height, 16, COLOR_TYPE_GRAYSCALE, bytes);
+};
@@ -0,0 +1,123 @@
+import polygonClipping, { MultiPolygon, Polygon, Ring } from 'polygon-clipping';
+import { Annotation, Point } from '../types';
+import { getAnnotationOutline, getStrokePolygons, getDistance, getDistanceToSegment, calculatePolygonArea } from './geometry';
+import { createAnnotation } from './annotation';
+
+// --- Polygon boolean operations ---
+// Union, subtract, intersect and split are computed on the exact outlines
+// with a vector clipper, so edges an operation does not touch keep their
+// original vertices. Round shapes enter as their polygon outline. Holes come
+// out as inner rings.
+
+export type BooleanOp = 'union' | 'subtract' | 'intersect';
+export type ShapeOperation = BooleanOp | 'split';
+
+// History entry names
+export const SHAPE_OPERATION_NAMES: Record<ShapeOperation, string> = {
+  union: '合并形状',
+  subtract: '形状相减',
+  intersect: '形状相交',
+  split: '切割形状'
+};
+
+export interface PolygonPiece {
+  points: Point[];
+  holes: Point[][];
+}
+
+// Shapes that enclose an area; polylines are used as cutting lines instead
+export const isBooleanOperand = (ann: Annotation): boolean => {
+  return !ann.locked && ['rectangle', 'rotated_rect', 'polygon', 'circle', 'ellipse'].includes(ann.type);
+};
+
+export const isCuttingLine = (ann: Annotation): boolean => ann.type === 'polyline' && ann.points.length >= 2;
+
+// Result pieces as polygons carrying the label and color of `source`
+export const createPieceAnnotations = (source: Annotation, pieces: PolygonPiece[]): Annotation[] => {
+  return pieces.map(piece => ({
+    ...createAnnotation(source.label, 'polygon', piece.points),
+    color: source.color,
+    ...(piece.holes.length > 0 ? { holes: piece.holes } : {}),
+    ...(source.needsReview ? { needsReview: true } : {})
+  }));
+};
+
+// Pieces and holes smaller than this (image px²) are rounding slivers
+const MIN_PIECE_AREA = 2;
+// Width (image px) of the band a cutting line removes; far below anything
+// visible, so the pieces meet without a gap
+const CUT_WIDTH = 1e-3;
+
+const toRing = (points: Point[]): Ring => points.map(p => [p.x, p.y]);
+
+// Output rings repeat their first point at the end
+const fromRing = (ring: Ring): Point[] => {
+  const points = ring.map(([x, y]) => ({ x, y }));
+  const first = points[0], last = points[points.length - 1];
+  if (points.length > 1 && first.x === last.x && first.y === last.y) points.pop();
+  return points;
+};
+
+const toPolygon = (ann: Annotation): Polygon => {
+  if (ann.type === 'polygon') return [toRing(ann.points), ...(ann.holes ?? []).map(toRing)];
+  return [toRing(getAnnotationOutline(ann))];
+};
+
+const toPieces = (result: MultiPolygon, cleanRing: (ring: Point[]) => Point[] = ring => ring): PolygonPiece[] => {
+  const isKept = (ring: Point[]) => ring.length >= 3 && Math.abs(calculatePolygonArea(ring)) >= MIN_PIECE_AREA;
+  return result
+    .map(([outer, ...holes]) => ({
+      points: cleanRing(fromRing(outer)),
+      holes: holes.map(hole => cleanRing(fromRing(hole))).filter(isKept)
+    }))
+    .filter(piece => isKept(piece.points));
+};
+
+// Union of all shapes, `primary` minus the others, or the area shared by all
+export const combineAnnotations = (primary: Annotation, others: Annotation[], op: BooleanOp): PolygonPiece[] => {
+  const subject = toPolygon(primary);
+  const clips = others.map(toPolygon);
+  const result = op === 'union'
+    ? polygonClipping.union(subject, ...clips)
+    : op === 'intersect'
+      ? polygonClipping.intersection(subject, ...clips)
+      : polygonClipping.difference(subject, ...clips);
+  return toPieces(result);
+};
+
+// The parts of `holes` that lie inside the ring `points`, e.g. after the
+// ring was edited on its own
+export const clipHolesToOutline = (points: Point[], holes: Point[][]): Point[][] => {
+  if (holes.length === 0) return [];
+  const result = polygonClipping.intersection(holes.map(hole => [toRing(hole)]), [toRing(points)]);
+  return toPieces(result).map(piece => piece.points);
+};
+
+// Removes what a cut leaves behind besides the seam: vertices doubled across
+// the band, slits where the line ends inside the shape, and points that only
+// split a straight edge. Everything within `tolerance` counts as touching.
+const removeCutArtifacts = (ring: Point[], tolerance: number): Point[] => {
+  const points = [...ring];
+  let changed = true;
+  while (changed && points.length >= 3) {
+    changed = false;
+    for (let i = 0; i < points.length && points.length >= 3; i++) {
+      const prev = points[(i + points.length - 1) % points.length];
+      const next = points[(i + 1) % points.length];
+      if (getDistance(points[i], next) < tolerance || getDistance(prev, next) < tolerance ||
+        getDistanceToSegment(points[i], prev, next) < tolerance) {
+        points.splice(i, 1);
+        changed = true;
+      }
+    }
+  }
+  return points;
+};
+
+// Cuts a shape along an open line by removing a hairline band around it. A
+// line that does not cross the shape yields a single piece.
+export const splitAnnotation = (ann: Annotation, line: Point[]): PolygonPiece[] => {
+  const band = getStrokePolygons(line, CUT_WIDTH).map(polygon => [toRing(polygon)]);
+  const result = polygonClipping.difference(toPolygon(ann), ...band);
+  return toPieces(result, ring => removeCutArtifacts(ring, CUT_WIDTH * 2));
+};
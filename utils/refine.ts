@@ -0,0 +1,133 @@
+import { Annotation, Point } from '../types';
+import { AnalysisImage, loadAnalysisImage } from './image';
+import { getPointsBounds } from './geometry';
+import { clipHolesToOutline } from './polygonOps';
+
+// --- Edge snapping ---
+// Moves the sides of a rectangle (or the vertices of a polygon) onto the
+// strongest nearby brightness edge, so loose hand-drawn shapes hug the
+// defect. Gradients are computed once per image on a capped copy.
+
+export const REFINE_MAX_DIMENSION = 2048;
+
+export interface GradientMap {
+  data: Float32Array; // Sobel magnitude of the luminance
+  width: number;
+  height: number;
+  scale: number; // Map size / image size
+}
+
+// Edges weaker than this (0-255 luminance units) are treated as noise
+const MIN_EDGE_STRENGTH = 12;
+// Share of the score lost at the far end of the search radius, so vertices
+// prefer nearby edges over equally strong distant ones
+const DISTANCE_PENALTY = 0.3;
+
+export const computeGradientMap = (img: AnalysisImage): GradientMap => {
+  const { data, width, height } = img;
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = lum[i - width + 1] + 2 * lum[i + 1] + lum[i + width + 1]
+        - lum[i - width - 1] - 2 * lum[i - 1] - lum[i + width - 1];
+      const gy = lum[i + width - 1] + 2 * lum[i + width] + lum[i + width + 1]
+        - lum[i - width - 1] - 2 * lum[i - width] - lum[i - width + 1];
+      magnitude[i] = Math.sqrt(gx * gx + gy * gy) / 4;
+    }
+  }
+  return { data: magnitude, width, height, scale: img.scale };
+};
+
+export const loadGradientMap = async (imageSrc: string): Promise<GradientMap> => {
+  return computeGradientMap(await loadAnalysisImage(imageSrc, REFINE_MAX_DIMENSION));
+};
+
+// Gradient at an image-space point (nearest map pixel, 0 outside the image)
+const sample = (map: GradientMap, x: number, y: number): number => {
+  const mx = Math.round(x * map.scale);
+  const my = Math.round(y * map.scale);
+  if (mx < 0 || my < 0 || mx >= map.width || my >= map.height) return 0;
+  return map.data[my * map.width + mx];
+};
+
+// Best offset in [-radius, radius] for `score`, or 0 when nothing stands out
+const searchOffset = (radius: number, step: number, score: (offset: number) => number): number => {
+  let best = 0;
+  let bestScore = MIN_EDGE_STRENGTH;
+  for (let t = -radius; t <= radius; t += step) {
+    const value = score(t) * (1 - DISTANCE_PENALTY * Math.abs(t) / radius);
+    if (value > bestScore) {
+      best = t;
+      bestScore = value;
+    }
+  }
+  return best;
+};
+
+const refineRectangle = (map: GradientMap, points: Point[], radius: number): Point[] => {
+  const b = getPointsBounds(points);
+  const step = 1 / map.scale;
+  // Mean gradient along a vertical (or horizontal) line across the box
+  const columnScore = (x: number) => {
+    let sum = 0, n = 0;
+    for (let y = b.minY; y <= b.maxY; y += step, n++) sum += sample(map, x, y);
+    return n > 0 ? sum / n : 0;
+  };
+  const rowScore = (y: number) => {
+    let sum = 0, n = 0;
+    for (let x = b.minX; x <= b.maxX; x += step, n++) sum += sample(map, x, y);
+    return n > 0 ? sum / n : 0;
+  };
+
+  // Each side may move at most halfway to the opposite one
+  const rx = Math.min(radius, b.width / 2);
+  const ry = Math.min(radius, b.height / 2);
+  const left = b.minX + searchOffset(rx, step, t => columnScore(b.minX + t));
+  const right = b.maxX + searchOffset(rx, step, t => columnScore(b.maxX + t));
+  const top = b.minY + searchOffset(ry, step, t => rowScore(b.minY + t));
+  const bottom = b.maxY + searchOffset(ry, step, t => rowScore(b.maxY + t));
+  if (right - left <= 1 || bottom - top <= 1) return points;
+  return [{ x: left, y: top }, { x: right, y: bottom }];
+};
+
+const refinePolygon = (map: GradientMap, points: Point[], radius: number): Point[] => {
+  const n = points.length;
+  const step = 1 / map.scale;
+  return points.map((p, i) => {
+    const prev = points[(i - 1 + n) % n];
+    const next = points[(i + 1) % n];
+    // Normal of the chord between the neighbours approximates the vertex normal
+    const dx = next.x - prev.x;
+    const dy = next.y - prev.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length === 0) return p;
+    const nx = -dy / length;
+    const ny = dx / length;
+    const t = searchOffset(radius, step, offset => sample(map, p.x + nx * offset, p.y + ny * offset));
+    return { x: p.x + nx * t, y: p.y + ny * t };
+  });
+};
+
+// Shapes the edge snapping applies to
+export const isRefinable = (ann: Annotation): boolean => {
+  return !ann.locked && (ann.type === 'rectangle' || ann.type === 'polygon');
+};
+
+// Refined outline (and holes) of a rectangle or polygon; other shapes are
+// returned as is. `radius` is in image pixels.
+export const refineAnnotationShape = (map: GradientMap, ann: Annotation, radius: number): Pick<Annotation, 'points' | 'holes'> => {
+  if (radius <= 0) return { points: ann.points, holes: ann.holes };
+  if (ann.type === 'rectangle') return { points: refineRectangle(map, ann.points, radius) };
+  if (ann.type !== 'polygon' || ann.points.length < 3) return { points: ann.points, holes: ann.holes };
+
+  const points = refinePolygon(map, ann.points, radius);
+  if (!ann.holes?.length) return { points, holes: ann.holes };
+  // Holes snap too, and are trimmed where they would now reach past the outline
+  const holes = clipHolesToOutline(points, ann.holes.map(hole => refinePolygon(map, hole, radius)));
+  return { points, holes: holes.length > 0 ? holes : undefined };
+};
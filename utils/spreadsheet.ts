@@ -0,0 +1,143 @@
+import { AnnotatedImage } from '../types';
+import { getLabelName, getLabelGroupName } from '../constants';
+import { getAnnotationArea, getAnnotationAreaPercentage, getAnnotationBounds, getPolylineLength, getRotatedBox } from './geometry';
+
+// --- Tabular defect reports ---
+// CSV (one file per sheet) and Excel 2003 XML spreadsheets, which open in
+// Excel/WPS/LibreOffice with several worksheets and need no zip library.
+
+type Cell = string | number | boolean | null;
+
+export interface Sheet {
+  name: string;
+  headers: string[];
+  rows: Cell[][];
+}
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits));
+
+export const buildDefectSheet = (images: AnnotatedImage[]): Sheet => {
+  const rows: Cell[][] = [];
+  images.forEach(image => {
+    image.annotations.forEach(ann => {
+      const b = getAnnotationBounds(ann);
+      rows.push([
+        image.fileName,
+        ann.id,
+        ann.label,
+        getLabelName(ann.label),
+        getLabelGroupName(ann.label),
+        ann.type,
+        round(b.minX, 2),
+        round(b.minY, 2),
+        round(b.maxX, 2),
+        round(b.maxY, 2),
+        round(b.width, 2),
+        round(b.height, 2),
+        round(getAnnotationArea(ann), 2),
+        round(getAnnotationAreaPercentage(ann, image.imageSize), 4),
+        ann.type === 'polyline' ? round(getPolylineLength(ann.points), 2) : null,
+        ann.type === 'rotated_rect' ? round(getRotatedBox(ann.points).angle * 180 / Math.PI, 2) : null,
+        ann.locked,
+        ann.visible
+      ]);
+    });
+  });
+
+  return {
+    name: '瑕疵明细 (Defects)',
+    headers: [
+      'image', 'id', 'label', 'name', 'group', 'shape_type',
+      'min_x', 'min_y', 'max_x', 'max_y', 'width', 'height',
+      'area_px', 'area_percent', 'length_px', 'angle_deg', 'locked', 'visible'
+    ],
+    rows
+  };
+};
+
+export const buildLabelSummarySheet = (images: AnnotatedImage[]): Sheet => {
+  const summary = new Map<string, { count: number; area: number; percent: number; images: Set<string | null> }>();
+  images.forEach(image => {
+    image.annotations.forEach(ann => {
+      const entry = summary.get(ann.label) || { count: 0, area: 0, percent: 0, images: new Set() };
+      entry.count++;
+      entry.area += getAnnotationArea(ann);
+      entry.percent += getAnnotationAreaPercentage(ann, image.imageSize);
+      entry.images.add(image.fileName);
+      summary.set(ann.label, entry);
+    });
+  });
+
+  const rows: Cell[][] = Array.from(summary.entries())
+    .sort((a, b) => b[1].count - a[1].count)
+    .map(([label, entry]) => [
+      label,
+      getLabelName(label),
+      getLabelGroupName(label),
+      entry.count,
+      entry.images.size,
+      round(entry.area, 2),
+      round(entry.area / entry.count, 2),
+      round(entry.percent, 4)
+    ]);
+
+  return {
+    name: '按类型汇总 (Summary)',
+    headers: ['label', 'name', 'group', 'count', 'images', 'total_area_px', 'mean_area_px', 'total_area_percent'],
+    rows
+  };
+};
+
+const escapeCsv = (cell: Cell): string => {
+  if (cell === null || cell === undefined) return '';
+  // Text that Excel would read as a formula (e.g. a label or file name
+  // starting with "=") is prefixed with an apostrophe; numbers are left as is
+  const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Prefixed with a BOM so Excel detects UTF-8 and shows the Chinese names
+export const toCsv = (sheet: Sheet): string => {
+  const lines = [sheet.headers, ...sheet.rows].map(row => row.map(escapeCsv).join(','));
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const toXmlCell = (cell: Cell): string => {
+  if (cell === null || cell === undefined) return '<Cell/>';
+  if (typeof cell === 'number') return `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`;
+  if (typeof cell === 'boolean') return `<Cell><Data ss:Type="Boolean">${cell ? 1 : 0}</Data></Cell>`;
+  return `<Cell><Data ss:Type="String">${escapeXml(cell)}</Data></Cell>`;
+};
+
+export const toSpreadsheetXml = (sheets: Sheet[]): string => {
+  const worksheets = sheets.map(sheet => [
+    // Excel limits sheet names to 31 characters and forbids a few symbols
+    `  <Worksheet ss:Name="${escapeXml(sheet.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31))}">`,
+    '    <Table>',
+    `      <Row ss:StyleID="header">${sheet.headers.map(toXmlCell).join('')}</Row>`,
+    ...sheet.rows.map(row => `      <Row>${row.map(toXmlCell).join('')}</Row>`),
+    '    </Table>',
+    '  </Worksheet>'
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet"',
+    ' xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '  <Styles>',
+    '    <Style ss:ID="header"><Font ss:Bold="1"/></Style>',
+    '  </Styles>',
+    ...worksheets,
+    '</Workbook>',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,84 @@
+import { DetectedObject, ImageSize } from '../types';
+import { normalizeDetectedObject, OverlapMetric } from './detection';
+
+// --- Tiled detection ---
+// High-resolution scans are split into overlapping tiles so small defects
+// keep enough pixels for the model to see them. Tiles are in image pixels;
+// detections come back normalized to their tile and are mapped back here.
+
+export interface ImageTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Evenly spaced tile offsets along one axis; the last tile ends exactly at
+// the image edge and neighbours share at least `overlap` of a tile.
+const getTileStarts = (length: number, tileSize: number, overlap: number): number[] => {
+  if (length <= tileSize) return [0];
+  const stride = Math.max(1, tileSize * (1 - overlap));
+  const count = Math.ceil((length - tileSize) / stride) + 1;
+  const step = (length - tileSize) / (count - 1);
+  return Array.from({ length: count }, (_, i) => Math.round(i * step));
+};
+
+export const computeTiles = (imageSize: ImageSize, tileSize: number, overlap: number): ImageTile[] => {
+  const size = Math.max(1, Math.round(tileSize));
+  const ratio = Math.min(0.9, Math.max(0, overlap));
+  const xs = getTileStarts(imageSize.width, size, ratio);
+  const ys = getTileStarts(imageSize.height, size, ratio);
+  const tiles: ImageTile[] = [];
+  ys.forEach(y => xs.forEach(x => tiles.push({
+    x,
+    y,
+    width: Math.min(size, imageSize.width - x),
+    height: Math.min(size, imageSize.height - y)
+  })));
+  return tiles;
+};
+
+// Tile-normalized detection -> image-normalized detection (null if unusable)
+export const mapTileDetection = (raw: DetectedObject, tile: ImageTile, imageSize: ImageSize): DetectedObject | null => {
+  const obj = normalizeDetectedObject(raw);
+  if (!obj) return null;
+  const toX = (v: number) => (tile.x + v * tile.width) / imageSize.width;
+  const toY = (v: number) => (tile.y + v * tile.height) / imageSize.height;
+  return {
+    ...obj,
+    xmin: toX(obj.xmin),
+    ymin: toY(obj.ymin),
+    xmax: toX(obj.xmax),
+    ymax: toY(obj.ymax),
+    ...(obj.polygon ? { polygon: obj.polygon.map(p => ({ x: toX(p.x), y: toY(p.y) })) } : {})
+  };
+};
+
+// Region two tiles share, normalized to the image (null if they do not overlap)
+const getSharedRegion = (a: ImageTile, b: ImageTile, imageSize: ImageSize) => {
+  const x0 = Math.max(a.x, b.x);
+  const y0 = Math.max(a.y, b.y);
+  const x1 = Math.min(a.x + a.width, b.x + b.width);
+  const y1 = Math.min(a.y + a.height, b.y + b.height);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { xmin: x0 / imageSize.width, ymin: y0 / imageSize.height, xmax: x1 / imageSize.width, ymax: y1 / imageSize.height };
+};
+
+const touches = (obj: DetectedObject, region: { xmin: number; ymin: number; xmax: number; ymax: number }) => {
+  return obj.xmin <= region.xmax && obj.xmax >= region.xmin && obj.ymin <= region.ymax && obj.ymax >= region.ymin;
+};
+
+// Overlap metric for merging tiled detections. A defect cut by a seam shows
+// up as a full box in one tile and a partial one in its neighbour, which only
+// intersection-over-smaller catches; everywhere else IoU is used, so a small
+// defect inside a larger one of the same label is kept.
+export const getTileMergeMetric = (
+  tileOf: Map<DetectedObject, ImageTile>,
+  imageSize: ImageSize
+) => (a: DetectedObject, b: DetectedObject): OverlapMetric => {
+  const tileA = tileOf.get(a);
+  const tileB = tileOf.get(b);
+  if (!tileA || !tileB || tileA === tileB) return 'iou';
+  const shared = getSharedRegion(tileA, tileB, imageSize);
+  return shared && touches(a, shared) && touches(b, shared) ? 'ios' : 'iou';
+};
@@ -0,0 +1,198 @@
+import { Annotation, ImageSize, Point, ImportResult } from '../types';
+import { DEFAULT_LABEL } from '../constants';
+import { getAnnotationBounds, getRotatedBox, getRotatedBoxCorners } from './geometry';
+import { createAnnotation, assertSameImageSize } from './annotation';
+
+// --- Pascal VOC XML ---
+// Boxes use VOC's 1-based integer pixel coordinates. Polygons are written as
+// their bounding box, with the exact outline and any holes kept in an
+// <extension> element that VOC readers ignore and our importer restores. Rotated rectangles also
+// get roLabelImg's <robndbox> (center, size, angle in radians in [0, π)).
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const serializeObject = (ann: Annotation, imageSize: ImageSize): string => {
+  const b = getAnnotationBounds(ann);
+  const xmin = Math.max(1, Math.round(b.minX) + 1);
+  const ymin = Math.max(1, Math.round(b.minY) + 1);
+  // A sub-pixel shape still covers the pixel it starts in
+  const xmax = Math.max(xmin, Math.min(imageSize.width, Math.round(b.maxX)));
+  const ymax = Math.max(ymin, Math.min(imageSize.height, Math.round(b.maxY)));
+  const truncated = b.minX <= 0 || b.minY <= 0 || b.maxX >= imageSize.width || b.maxY >= imageSize.height;
+
+  const lines = [
+    '  <object>',
+    `    <name>${escapeXml(ann.label)}</name>`,
+    '    <pose>Unspecified</pose>',
+    `    <truncated>${truncated ? 1 : 0}</truncated>`,
+    '    <difficult>0</difficult>',
+    '    <bndbox>',
+    `      <xmin>${xmin}</xmin>`,
+    `      <ymin>${ymin}</ymin>`,
+    `      <xmax>${xmax}</xmax>`,
+    `      <ymax>${ymax}</ymax>`,
+    '    </bndbox>'
+  ];
+
+  if (ann.type === 'rotated_rect') {
+    const box = getRotatedBox(ann.points);
+    // A box turned by π is the same box
+    const angle = ((box.angle % Math.PI) + Math.PI) % Math.PI;
+    lines.push(
+      '    <type>robndbox</type>',
+      '    <robndbox>',
+      `      <cx>${box.centerX}</cx>`,
+      `      <cy>${box.centerY}</cy>`,
+      `      <w>${box.width}</w>`,
+      `      <h>${box.height}</h>`,
+      `      <angle>${angle}</angle>`,
+      '    </robndbox>'
+    );
+  }
+
+  if (ann.type === 'polygon') {
+    const ring = (tag: string, points: Point[]) => [
+      `      <${tag}>`,
+      ...points.map(p => `        <pt><x>${p.x}</x><y>${p.y}</y></pt>`),
+      `      </${tag}>`
+    ];
+    lines.push(
+      '    <extension>',
+      `      <shape_type>${ann.type}</shape_type>`,
+      ...ring('polygon', ann.points),
+      ...(ann.holes ?? []).flatMap(hole => ring('hole', hole)),
+      '    </extension>'
+    );
+  }
+
+  lines.push('  </object>');
+  return lines.join('\n');
+};
+
+export const serializeVoc = (
+  annotations: Annotation[],
+  imageSize: ImageSize,
+  fileName: string | null
+): string => {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<annotation>',
+    '  <folder>images</folder>',
+    `  <filename>${escapeXml(fileName || 'image')}</filename>`,
+    '  <source>',
+    '    <database>React LabelMe AI</database>',
+    '  </source>',
+    '  <size>',
+    `    <width>${imageSize.width}</width>`,
+    `    <height>${imageSize.height}</height>`,
+    '    <depth>3</depth>',
+    '  </size>',
+    `  <segmented>${annotations.some(a => a.type === 'polygon') ? 1 : 0}</segmented>`,
+    ...annotations.map(a => serializeObject(a, imageSize)),
+    '</annotation>',
+    ''
+  ].join('\n');
+};
+
+const childText = (parent: Element, tag: string): string | null => {
+  // Direct children only; <extension> may contain elements with the same names
+  for (const child of Array.from(parent.children)) {
+    if (child.tagName === tag) return child.textContent?.trim() ?? null;
+  }
+  return null;
+};
+
+const childNumber = (parent: Element, tag: string): number => {
+  const text = childText(parent, tag);
+  return text === null ? NaN : Number(text);
+};
+
+const parseRing = (ring: Element): Point[] | null => {
+  const points = Array.from(ring.querySelectorAll(':scope > pt')).map(pt => ({
+    x: childNumber(pt, 'x'),
+    y: childNumber(pt, 'y')
+  }));
+  if (points.length < 3 || points.some(p => !Number.isFinite(p.x) || !Number.isFinite(p.y))) return null;
+  return points;
+};
+
+const parsePolygonExtension = (object: Element): { points: Point[]; holes: Point[][] } | null => {
+  const polygon = object.querySelector(':scope > extension > polygon');
+  const points = polygon ? parseRing(polygon) : null;
+  if (!points) return null;
+  const holes = Array.from(object.querySelectorAll(':scope > extension > hole'))
+    .map(parseRing)
+    .filter((hole): hole is Point[] => hole !== null);
+  return { points, holes };
+};
+
+export const isVocDocument = (text: string): boolean => /<annotation[\s>]/.test(text);
+
+export const parseVoc = (text: string, imageSize: ImageSize): ImportResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('文件不是有效的 XML (Invalid XML file)');
+  }
+
+  const root = doc.documentElement;
+  if (root.tagName !== 'annotation') {
+    throw new Error('缺少 <annotation> 根节点，不是 VOC 格式 (Not a Pascal VOC document)');
+  }
+
+  const size = root.querySelector(':scope > size');
+  if (size) {
+    const width = childNumber(size, 'width');
+    const height = childNumber(size, 'height');
+    // Some tools write 0x0 when they never loaded the image
+    if (width > 0 && height > 0) assertSameImageSize({ width, height }, imageSize);
+  }
+
+  const annotations: Annotation[] = [];
+  let skipped = 0;
+
+  root.querySelectorAll(':scope > object').forEach(object => {
+    const label = childText(object, 'name') || DEFAULT_LABEL;
+
+    const rotated = object.querySelector(':scope > robndbox');
+    if (rotated) {
+      const [cx, cy, w, h, angle] = ['cx', 'cy', 'w', 'h', 'angle'].map(tag => childNumber(rotated, tag));
+      if ([cx, cy, w, h, angle].every(Number.isFinite) && w > 0 && h > 0) {
+        annotations.push(createAnnotation(label, 'rotated_rect', getRotatedBoxCorners({ centerX: cx, centerY: cy, width: w, height: h, angle })));
+        return;
+      }
+    }
+
+    const polygon = parsePolygonExtension(object);
+    if (polygon) {
+      const ann = createAnnotation(label, 'polygon', polygon.points);
+      if (polygon.holes.length > 0) ann.holes = polygon.holes;
+      annotations.push(ann);
+      return;
+    }
+
+    const box = object.querySelector(':scope > bndbox');
+    const coords = box
+      ? ['xmin', 'ymin', 'xmax', 'ymax'].map(tag => childNumber(box, tag))
+      : [];
+    if (coords.length !== 4 || coords.some(v => !Number.isFinite(v))) {
+      skipped++;
+      return;
+    }
+
+    const [xmin, ymin, xmax, ymax] = coords;
+    // 1-based pixel indices: pixel xmin starts at xmin - 1, pixel xmax ends at xmax
+    annotations.push(createAnnotation(label, 'rectangle', [
+      { x: xmin - 1, y: ymin - 1 },
+      { x: xmax, y: ymax }
+    ]));
+  });
+
+  return { annotations, skipped };
+};
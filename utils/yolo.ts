@@ -0,0 +1,127 @@
+import { Annotation, ImageSize, Point, ImportResult } from '../types';
+import { getOrderedLabelKeys, DEFAULT_LABEL } from '../constants';
+import { getAnnotationBounds, getAnnotationOutline, getPointsBounds, getOrientedCorners, isRectangleCorners } from './geometry';
+import { createAnnotation } from './annotation';
+
+// --- YOLO (Ultralytics) ---
+// One line per object, coordinates normalized to 0-1:
+//   detection:    <class> <cx> <cy> <w> <h>
+//   segmentation: <class> <x1> <y1> <x2> <y2> ...
+//   obb:          <class> <x1> <y1> <x2> <y2> <x3> <y3> <x4> <y4> (oriented box corners)
+
+export type YoloMode = 'detection' | 'segmentation' | 'obb';
+
+const PRECISION = 6;
+
+const fmt = (n: number) => n.toFixed(PRECISION);
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+export const getYoloClassIndex = (label: string, classNames: string[]): number => {
+  const index = classNames.indexOf(label);
+  // Labels outside the taxonomy still need a class; use the generic one
+  return index !== -1 ? index : classNames.indexOf(DEFAULT_LABEL);
+};
+
+export const serializeYolo = (
+  annotations: Annotation[],
+  imageSize: ImageSize,
+  mode: YoloMode,
+  classNames: string[] = getOrderedLabelKeys()
+): string => {
+  const { width, height } = imageSize;
+  // Points have no extent, so there is no box or outline to train on
+  const lines = annotations.filter(ann => ann.type !== 'point').map(ann => {
+    const cls = getYoloClassIndex(ann.label, classNames);
+
+    if (mode === 'obb') {
+      // Not clamped: moving single corners of a box that pokes out of the
+      // image would skew it
+      const coords = getOrientedCorners(ann).flatMap(p => [fmt(p.x / width), fmt(p.y / height)]);
+      return [cls, ...coords].join(' ');
+    }
+
+    if (mode === 'segmentation') {
+      const coords = getAnnotationOutline(ann).flatMap(p => [fmt(clamp01(p.x / width)), fmt(clamp01(p.y / height))]);
+      return [cls, ...coords].join(' ');
+    }
+
+    const b = getAnnotationBounds(ann);
+    return [
+      cls,
+      fmt(clamp01(b.centerX / width)),
+      fmt(clamp01(b.centerY / height)),
+      fmt(clamp01(b.width / width)),
+      fmt(clamp01(b.height / height))
+    ].join(' ');
+  });
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+};
+
+export const buildYoloClassesTxt = (classNames: string[] = getOrderedLabelKeys()): string => {
+  return classNames.join('\n') + '\n';
+};
+
+export const buildYoloDataYaml = (classNames: string[] = getOrderedLabelKeys()): string => {
+  return [
+    'path: .',
+    'train: images/train',
+    'val: images/val',
+    '',
+    `nc: ${classNames.length}`,
+    'names:',
+    ...classNames.map((name, i) => `  ${i}: ${name}`),
+    ''
+  ].join('\n');
+};
+
+// Accepts the detection, segmentation and OBB variants, even mixed in one file
+export const parseYolo = (
+  text: string,
+  imageSize: ImageSize,
+  classNames: string[] = getOrderedLabelKeys()
+): ImportResult => {
+  const { width, height } = imageSize;
+  const annotations: Annotation[] = [];
+  let skipped = 0;
+
+  text.split(/\r?\n/).forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const values = trimmed.split(/\s+/).map(Number);
+    const [cls, ...coords] = values;
+    if (values.some(v => !Number.isFinite(v)) || !Number.isInteger(cls) || cls < 0) {
+      skipped++;
+      return;
+    }
+    const label = classNames[cls] ?? DEFAULT_LABEL;
+
+    if (coords.length === 4) {
+      const [cx, cy, w, h] = coords;
+      annotations.push(createAnnotation(label, 'rectangle', [
+        { x: (cx - w / 2) * width, y: (cy - h / 2) * height },
+        { x: (cx + w / 2) * width, y: (cy + h / 2) * height }
+      ]));
+    } else if (coords.length >= 6 && coords.length % 2 === 0) {
+      const points: Point[] = [];
+      for (let i = 0; i < coords.length; i += 2) {
+        points.push({ x: coords[i] * width, y: coords[i + 1] * height });
+      }
+      // Our own segmentation export writes rectangles as 4-corner outlines,
+      // and OBB files are nothing but tilted ones
+      const b = getPointsBounds(points);
+      const isBox = points.length === 4 &&
+        points.every(p => (p.x === b.minX || p.x === b.maxX) && (p.y === b.minY || p.y === b.maxY));
+      annotations.push(isBox
+        ? createAnnotation(label, 'rectangle', [{ x: b.minX, y: b.minY }, { x: b.maxX, y: b.maxY }])
+        : isRectangleCorners(points)
+          ? createAnnotation(label, 'rotated_rect', points)
+          : createAnnotation(label, 'polygon', points));
+    } else {
+      skipped++;
+    }
+  });
+
+  return { annotations, skipped };
+};